@@ -1,43 +1,83 @@
-import { useMemo, useCallback, useSyncExternalStore, useEffect } from "react";
-import { DataStore } from "@data-validator/validator-mastermind";
+import { useCallback, useSyncExternalStore, useEffect, useState } from "react";
+import { DataStore, RecordPathError } from "@data-validator/validator-mastermind";
 import type { CellValue } from "@data-validator/validator-mastermind";
 import testData from "../../../test-data.json";
 
 // components
 import { DataTable } from "@/components/data-table";
 import { ValidationErrorsTable } from "@/components/validation-errors-table";
+import { DatasetErrors } from "@/components/dataset-errors";
 import { FileUpload } from "@/components/file-upload";
 import { Button } from "@/components/ui/button";
+import { LoadingProgress } from "@/components/loading-progress";
+import { RecordPathPicker } from "@/components/record-path-picker";
+import { memberExists } from "@/lib/member-directory";
+import { messages } from "@/lib/messages";
+
+const MAX_FILE_SIZE = 500 * 1024 * 1024;
+
+// One worker and store for the page. Created during render, StrictMode's
+// second render would start a worker nothing ever terminates.
+const worker = new Worker(new URL("./validator.worker.ts", import.meta.url), {
+	type: "module",
+});
+import.meta.hot?.dispose(() => worker.terminate());
+
+const store = new DataStore({
+	skipInvalidLines: true,
+	maxFileSize: MAX_FILE_SIZE,
+	customRules: { "member-exists": memberExists },
+	validationRules: {
+		name: [{ type: "member-exists", severity: "warning" }],
+	},
+	datasetRules: [
+		{ type: "min-rows", value: 10 },
+		{ type: "contains", column: "active", values: [true, false] },
+	],
+	asyncConcurrency: 8,
+	messages,
+	messageLocale: navigator.language,
+	worker,
+});
+
+const subscribe = (cb: () => void) => store.subscribe(cb);
+const getSnapshot = () => store.getSnapshot();
 
 function App() {
-	const store = useMemo(() => new DataStore(), []);
+	const state = useSyncExternalStore(subscribe, getSnapshot);
 
-	const state = useSyncExternalStore(
-		useCallback((cb: () => void) => store.subscribe(cb), [store]),
-		useCallback(() => store.getSnapshot(), [store]),
-	);
+	// Kept so a wrapped JSON file can be reloaded once its record array is picked.
+	const [lastFile, setLastFile] = useState<File | null>(null);
 
 	const handleFileUpload = useCallback(
 		(file: File) => {
+			setLastFile(file);
 			store.loadFromFile(file);
 		},
-		[store],
+		[],
+	);
+
+	const handleRecordPathSelect = useCallback(
+		(recordPath: string) => {
+			if (lastFile) store.loadFromFile(lastFile, { recordPath });
+		},
+		[lastFile],
 	);
 
 	const handleReset = useCallback(() => {
 		store.reset();
-	}, [store]);
+	}, []);
 
 	const handleCellUpdate = useCallback(
 		(rowId: string, columnKey: string, value: CellValue) => {
 			store.updateCell(rowId, columnKey, value);
 		},
-		[store],
+		[],
 	);
 
 	useEffect(() => {
 		store.loadFromString(JSON.stringify(testData), "test-data.json");
-	}, [store]);
+	}, []);
 
 	return (
 		<div className="flex min-h-screen flex-col items-center gap-8 px-6 py-12">
@@ -46,15 +86,24 @@ function App() {
 			{state.status === "idle" && <FileUpload onFile={handleFileUpload} />}
 
 			{state.status === "loading" && (
-				<p className="text-muted-foreground text-sm">Parsing file…</p>
+				<LoadingProgress progress={state.progress} />
 			)}
 
-			{state.status === "error" && (
-				<FileUpload onFile={handleFileUpload} error={state.error.message} />
-			)}
+			{state.status === "error" &&
+				(state.error instanceof RecordPathError && lastFile ? (
+					<RecordPathPicker
+						candidates={state.error.candidates}
+						onSelect={handleRecordPathSelect}
+						onCancel={handleReset}
+					/>
+				) : (
+					<FileUpload onFile={handleFileUpload} error={state.error} />
+				))}
 
 			{state.status === "loaded" && (
 				<div className="w-full max-w-5xl space-y-8">
+					<DatasetErrors errors={state.data.datasetErrors ?? []} />
+
 					<ValidationErrorsTable
 						columns={state.data.columns}
 						rows={state.data.rows}
@@ -65,6 +114,9 @@ function App() {
 						<p className="text-muted-foreground text-sm">
 							{state.data.metadata.fileName} · {state.data.metadata.rowCount}{" "}
 							row(s)
+							{state.data.metadata.rejectedRecords && (
+								<> · {state.data.metadata.rejectedRecords.length} line(s) skipped</>
+							)}
 						</p>
 						<Button variant="outline" size="sm" onClick={handleReset}>
 							Upload new file
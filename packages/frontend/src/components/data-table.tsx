@@ -8,14 +8,26 @@ import {
 } from "@tanstack/react-table";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { useState, useCallback, useRef, useEffect, memo } from "react";
-import type {
-	Column,
-	Row,
-	CellValue,
-	CellType,
-	ValidationError,
+import {
+	type Column,
+	type Row,
+	type CellValue,
+	type CellType,
+	type ListItem,
+	type Severity,
+	type ValidationError,
+	Severities,
+	formatDate,
+	readDate,
+	readNumber,
 } from "@data-validator/validator-mastermind";
-import { ArrowUpDown, OctagonAlert } from "lucide-react";
+import {
+	ArrowUpDown,
+	Info,
+	LoaderCircle,
+	OctagonAlert,
+	TriangleAlert,
+} from "lucide-react";
 
 import {
 	Table,
@@ -42,32 +54,102 @@ import {
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
 import { Field } from "./ui/field";
+import { ListEditor } from "./list-editor";
 
-function formatCellValue(value: CellValue, type: CellType): string {
+type CellFormat = Pick<Column, "scale" | "currency" | "locale" | "dateFormat">;
+
+function formatCellValue(
+	value: CellValue,
+	type: CellType,
+	format: CellFormat = {},
+): string {
 	if (value === null || value === undefined) return "—";
 	switch (type) {
 		case "boolean":
 			return value ? "Yes" : "No";
 		case "number":
-			return typeof value === "number" ? value.toLocaleString() : String(value);
+		case "integer":
+			return typeof value === "number"
+				? value.toLocaleString(format.locale)
+				: String(value);
+		case "decimal":
+			// Never round below the value's own digits, so scale errors stay visible.
+			return typeof value === "number"
+				? value.toLocaleString(format.locale, {
+						minimumFractionDigits: format.scale ?? 0,
+						maximumFractionDigits: 20,
+					})
+				: String(value);
+		case "currency":
+			return typeof value === "number"
+				? formatCurrency(value, format.currency, format.locale)
+				: String(value);
 		case "date":
+		case "datetime":
 			if (typeof value === "string") {
-				const date = new Date(value);
-				if (!isNaN(date.getTime())) return date.toLocaleDateString();
+				const date = readDate(value, format);
+				if (date) return formatDateValue(date, type, format);
 			}
 			return String(value);
+		case "list":
+			return Array.isArray(value)
+				? value.map((item) => (item === null ? "—" : String(item))).join(", ")
+				: String(value);
 		default:
 			return String(value);
 	}
 }
 
-function parseEditValue(input: string, type: CellType): CellValue {
+function formatCurrency(
+	amount: number,
+	currency?: string,
+	locale?: string,
+): string {
+	if (currency) {
+		try {
+			return amount.toLocaleString(locale, {
+				style: "currency",
+				currency,
+				maximumFractionDigits: 20,
+			});
+		} catch {
+			// Not an ISO 4217 code the runtime knows; fall through to a plain amount.
+		}
+	}
+	const amountText = amount.toLocaleString(locale, {
+		minimumFractionDigits: 2,
+		maximumFractionDigits: 20,
+	});
+	return currency ? `${amountText} ${currency}` : amountText;
+}
+
+/**
+ * A column with a date format shows it; otherwise dates are shown in the
+ * column's locale, or the browser's. Date-only text in a configured locale
+ * reads as UTC midnight, so it is shown in UTC to keep the same day.
+ */
+function formatDateValue(
+	date: Date,
+	type: CellType,
+	{ locale, dateFormat }: CellFormat,
+): string {
+	if (dateFormat) return formatDate(date, dateFormat);
+	if (type === "datetime") return date.toLocaleString(locale);
+	return date.toLocaleDateString(locale, locale ? { timeZone: "UTC" } : undefined);
+}
+
+function parseEditValue(
+	input: string,
+	type: CellType,
+	locale?: string,
+): ListItem {
 	if (input.trim() === "") return null;
 	switch (type) {
-		case "number": {
-			const num = Number(input);
-			return isNaN(num) ? input : num;
-		}
+		case "number":
+		case "integer":
+		case "decimal":
+		case "currency":
+			return readNumber(input, locale) ?? input;
 		case "boolean": {
 			const lower = input.toLowerCase();
 			if (["true", "yes", "1"].includes(lower)) return true;
@@ -79,83 +161,228 @@ function parseEditValue(input: string, type: CellType): CellValue {
 	}
 }
 
+const NUMERIC_TYPES = new Set<CellType>(["number", "integer", "decimal", "currency"]);
+
+/**
+ * Text shown in the editor: numbers in the column's locale, datetimes in the
+ * `datetime-local` form. Text in a date format is wall-clock time, read as UTC.
+ */
+function toEditText(value: CellValue, type: CellType, format: CellFormat): string {
+	if (value === null || value === undefined) return "";
+	if (typeof value === "number" && format.locale && NUMERIC_TYPES.has(type)) {
+		return value.toLocaleString(format.locale, {
+			useGrouping: false,
+			maximumFractionDigits: 20,
+		});
+	}
+	if (type === "datetime" && typeof value === "string") {
+		const date = readDate(value, format);
+		if (date) {
+			const offset = format.dateFormat ? 0 : date.getTimezoneOffset();
+			const local = new Date(date.getTime() - offset * 60000);
+			return local.toISOString().slice(0, 19);
+		}
+	}
+	return String(value);
+}
+
+/**
+ * Stores an edited datetime in the column's date format, or in UTC so no
+ * offset information is lost.
+ */
+function parseDateTimeInput(input: string, dateFormat?: string): ListItem {
+	const date = new Date(dateFormat ? `${input}Z` : input);
+	if (isNaN(date.getTime())) return parseEditValue(input, "string");
+	return dateFormat ? formatDate(date, dateFormat) : date.toISOString();
+}
+
+/** The day a date cell names, as local midnight for the date picker. */
+function toCalendarDate(value: CellValue, format: CellFormat): Date | undefined {
+	if (!value || typeof value !== "string") return undefined;
+	const date = readDate(value, format);
+	if (!date) return undefined;
+	// A configured locale or date format reads dates as UTC midnight.
+	return format.locale || format.dateFormat
+		? new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+		: date;
+}
+
+/** The picked day in the column's date format, or as an ISO date. */
+function fromCalendarDate(date: Date, format: CellFormat): string {
+	if (!format.locale && !format.dateFormat) {
+		return date.toISOString().split("T")[0];
+	}
+	const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+	return formatDate(day, format.dateFormat ?? "YYYY-MM-DD");
+}
+
+/** Cell types edited in a single `Input`, with the attributes each one gets. */
+const TEXT_INPUTS: Partial<Record<CellType, React.ComponentProps<"input">>> = {
+	string: {},
+	number: {},
+	integer: { inputMode: "numeric" },
+	decimal: { inputMode: "decimal" },
+	currency: { inputMode: "decimal" },
+	email: { type: "email" },
+	url: { type: "url" },
+	uuid: { className: "font-mono", spellCheck: false },
+	time: { type: "time", step: 1 },
+	datetime: { type: "datetime-local", step: 1 },
+};
 
 interface EditableCellProps {
 	value: CellValue;
 	columnKey: string;
 	columnType: CellType;
+	itemType?: CellType;
+	values?: ListItem[];
+	currency?: string;
+	scale?: number;
+	locale?: string;
+	dateFormat?: string;
 	rowId: string;
 	errors: ValidationError[];
+	/** Whether asynchronous rules are still checking the value. */
+	validating: boolean;
 	onUpdate: (rowId: string, columnKey: string, value: CellValue) => void;
 }
 
+export function SeverityIcon({
+	severity,
+	size,
+	...props
+}: { severity: Severity; size: number } & React.ComponentProps<"svg">) {
+	const { icon: Icon, className } = SEVERITY_STYLES[severity];
+	return (
+		<Icon size={size} className={className} aria-label={severity} {...props} />
+	);
+}
+
+function ValidatingIcon() {
+	return (
+		<LoaderCircle
+			size={14}
+			className="animate-spin text-muted-foreground"
+			aria-label="Validating"
+		/>
+	);
+}
+
+const SEVERITY_STYLES = {
+	[Severities.ERROR]: { icon: OctagonAlert, className: "text-destructive" },
+	[Severities.WARNING]: {
+		icon: TriangleAlert,
+		className: "text-amber-600 dark:text-amber-500",
+	},
+	[Severities.INFO]: { icon: Info, className: "text-sky-600 dark:text-sky-400" },
+} satisfies Record<Severity, { icon: typeof Info; className: string }>;
+
+/** Most severe first, so a cell shows its worst problem. */
+const SEVERITY_ORDER: Severity[] = [
+	Severities.ERROR,
+	Severities.WARNING,
+	Severities.INFO,
+];
+
+function worstSeverity(errors: ValidationError[]): Severity | null {
+	return (
+		SEVERITY_ORDER.find((severity) =>
+			errors.some((e) => e.severity === severity),
+		) ?? null
+	);
+}
+
 const EditableCell = memo(function EditableCell({
 	value,
 	columnKey,
 	columnType,
+	itemType = "string",
+	values,
+	currency,
+	scale,
+	locale,
+	dateFormat,
 	rowId,
 	errors,
+	validating,
 	onUpdate,
 }: EditableCellProps) {
 	const [open, setOpen] = useState(false);
 	const [editValue, setEditValue] = useState(() =>
-		value === null || value === undefined ? "" : String(value),
+		toEditText(value, columnType, { locale, dateFormat }),
 	);
 	const [pendingBool, setPendingBool] = useState<boolean>(() => value === true);
-	const [pendingDate, setPendingDate] = useState<Date | undefined>(() => {
-		if (value && typeof value === "string") {
-			const d = new Date(value);
-			return isNaN(d.getTime()) ? undefined : d;
-		}
-		return undefined;
-	});
+	const [pendingDate, setPendingDate] = useState<Date | undefined>(() =>
+		toCalendarDate(value, { locale, dateFormat }),
+	);
+	const [pendingItems, setPendingItems] = useState<ListItem[]>(() =>
+		Array.isArray(value) ? value : [],
+	);
+	const [itemDraft, setItemDraft] = useState("");
+	const [pendingChoice, setPendingChoice] = useState<ListItem>(() =>
+		Array.isArray(value) ? null : (value ?? null),
+	);
 	const inputRef = useRef<HTMLInputElement>(null);
-	const hasErrors = errors.length > 0;
+	const severity = worstSeverity(errors);
+	const hasErrors = severity === Severities.ERROR;
+	const inputProps = TEXT_INPUTS[columnType];
+	const isTextInput = inputProps !== undefined;
 
-	useEffect(() => {
-		if (!open) {
-			setEditValue(value === null || value === undefined ? "" : String(value));
-			setPendingBool(value === true);
-			setPendingDate(() => {
-				if (value && typeof value === "string") {
-					const d = new Date(value);
-					return isNaN(d.getTime()) ? undefined : d;
-				}
-				return undefined;
-			});
-		}
-	}, [value, open]);
+	// Drafts start from the cell's current value each time the editor opens.
+	const handleOpenChange = useCallback(
+		(next: boolean) => {
+			if (next) {
+				setEditValue(toEditText(value, columnType, { locale, dateFormat }));
+				setPendingBool(value === true);
+				setPendingItems(Array.isArray(value) ? value : []);
+				setItemDraft("");
+				setPendingChoice(Array.isArray(value) ? null : (value ?? null));
+				setPendingDate(toCalendarDate(value, { locale, dateFormat }));
+			}
+			setOpen(next);
+		},
+		[value, columnType, locale, dateFormat],
+	);
 
 	useEffect(() => {
-		if (
-			open &&
-			(columnType === "string" || columnType === "number") &&
-			inputRef.current
-		) {
+		if (open && isTextInput && inputRef.current) {
 			inputRef.current.focus();
 			inputRef.current.select();
 		}
-	}, [open, columnType]);
+	}, [open, isTextInput]);
 
 	const handleSave = useCallback(() => {
 		let newValue: CellValue;
 		switch (columnType) {
-			case "string":
-			case "number":
-				newValue = parseEditValue(editValue, columnType);
-				break;
 			case "boolean":
 				newValue = pendingBool;
 				break;
 			case "date":
-				newValue = pendingDate ? pendingDate.toISOString().split("T")[0] : null;
+				newValue = pendingDate
+					? fromCalendarDate(pendingDate, { locale, dateFormat })
+					: null;
+				break;
+			case "datetime":
+				newValue = parseDateTimeInput(editValue, dateFormat);
+				break;
+			case "enum":
+				newValue = pendingChoice;
+				break;
+			case "list":
+				newValue =
+					itemDraft.trim() === ""
+						? pendingItems
+						: [...pendingItems, parseEditValue(itemDraft, itemType, locale)];
+				break;
+			default:
+				newValue = parseEditValue(editValue, columnType, locale);
 				break;
 		}
 		if (newValue !== value) {
 			onUpdate(rowId, columnKey, newValue);
 		}
 		setOpen(false);
-	}, [columnType, editValue, pendingBool, pendingDate, value, onUpdate, rowId, columnKey]);
+	}, [columnType, itemType, locale, dateFormat, editValue, pendingBool, pendingDate, pendingItems, itemDraft, pendingChoice, value, onUpdate, rowId, columnKey]);
 
 	const handleKeyDown = useCallback(
 		(e: React.KeyboardEvent) => {
@@ -169,28 +396,6 @@ const EditableCell = memo(function EditableCell({
 
 	function renderContent() {
 		switch (columnType) {
-			case "string":
-				return (
-					<Input
-						ref={inputRef}
-						value={editValue}
-						onChange={(e) => setEditValue(e.target.value)}
-						onKeyDown={handleKeyDown}
-						aria-label={`Edit ${columnKey}`}
-						aria-invalid={hasErrors || undefined}
-					/>
-				);
-			case "number":
-				return (
-					<Input
-						ref={inputRef}
-						value={editValue}
-						onChange={(e) => setEditValue(e.target.value)}
-						onKeyDown={handleKeyDown}
-						aria-label={`Edit ${columnKey}`}
-						aria-invalid={hasErrors || undefined}
-					/>
-				);
 			case "boolean":
 				return (
 					<div className="flex items-center gap-2 px-1 py-1">
@@ -215,29 +420,91 @@ const EditableCell = memo(function EditableCell({
 						onSelect={(date) => setPendingDate(date ?? undefined)}
 					/>
 				);
+			case "list":
+				return (
+					<ListEditor
+						items={pendingItems}
+						onChange={setPendingItems}
+						draft={itemDraft}
+						onDraftChange={setItemDraft}
+						parseItem={(input) => parseEditValue(input, itemType, locale)}
+						onSubmit={handleSave}
+						label={columnKey}
+						invalid={hasErrors}
+					/>
+				);
+			case "enum":
+				if (!values || values.length === 0) {
+					return (
+						<p className="text-muted-foreground px-1 text-sm">
+							No values are defined for this column.
+						</p>
+					);
+				}
+				return (
+					<div
+						className="flex flex-wrap gap-1"
+						role="radiogroup"
+						aria-label={`Edit ${columnKey}`}
+					>
+						{values.map((option) => (
+							<Button
+								key={JSON.stringify(option)}
+								variant={option === pendingChoice ? "default" : "outline"}
+								size="xs"
+								role="radio"
+								aria-checked={option === pendingChoice}
+								// Picking the selected value again clears the cell.
+								onClick={() =>
+									setPendingChoice(option === pendingChoice ? null : option)
+								}
+							>
+								{option === null ? "—" : String(option)}
+							</Button>
+						))}
+					</div>
+				);
+			default:
+				return (
+					<Input
+						ref={inputRef}
+						{...inputProps}
+						value={editValue}
+						onChange={(e) => setEditValue(e.target.value)}
+						onKeyDown={handleKeyDown}
+						aria-label={`Edit ${columnKey}`}
+						aria-invalid={hasErrors || undefined}
+					/>
+				);
 		}
 	}
 
-	const isTextInput = columnType === "string" || columnType === "number";
-
 	return (
-		<Popover open={open} onOpenChange={setOpen}>
+		<Popover open={open} onOpenChange={handleOpenChange}>
 			<PopoverTrigger asChild>
 				<div
 					className={cn(
 						"flex h-8 cursor-pointer items-center gap-1 rounded px-1 -mx-1 hover:bg-muted/50",
-						hasErrors && "text-destructive",
+						severity && SEVERITY_STYLES[severity].className,
 					)}
 					tabIndex={0}
 					role="gridcell"
 					title="Click to edit"
 				>
-					<span>{formatCellValue(value, columnType)}</span>
-					{hasErrors && (
+					<span>
+						{formatCellValue(value, columnType, {
+							scale,
+							currency,
+							locale,
+							dateFormat,
+						})}
+					</span>
+					{validating && <ValidatingIcon />}
+					{severity && (
 						<TooltipProvider>
 							<Tooltip>
 								<TooltipTrigger asChild>
-									<OctagonAlert size={16} className="text-destructive" />
+									<SeverityIcon severity={severity} size={16} />
 								</TooltipTrigger>
 								<TooltipContent>
 									{errors.map((e) => e.message).join(", ")}
@@ -254,6 +521,7 @@ const EditableCell = memo(function EditableCell({
 					isTextInput && "w-[--radix-popover-trigger-width] p-1",
 					columnType === "boolean" && "w-auto p-2",
 					columnType === "date" && "w-auto p-0",
+					(columnType === "list" || columnType === "enum") && "w-72 p-2",
 				)}
 			>
 				<div className="flex w-full flex-col gap-4">
@@ -286,6 +554,11 @@ function buildColumns(
 				variant="ghost"
 				size="sm"
 				className="-ml-3"
+				title={
+					col.presentCount !== undefined
+						? `Present in ${col.presentCount.toLocaleString()} record(s)`
+						: undefined
+				}
 				onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
 			>
 				{col.label}
@@ -295,6 +568,8 @@ function buildColumns(
 		cell: ({ row: tableRow }) => {
 			const value = tableRow.original.cells[col.key];
 			const errors = tableRow.original.errors[col.key] ?? [];
+			const severity = worstSeverity(errors);
+			const validating = tableRow.original.pending?.includes(col.key) ?? false;
 
 			if (onCellUpdate) {
 				return (
@@ -302,8 +577,15 @@ function buildColumns(
 						value={value}
 						columnKey={col.key}
 						columnType={col.type}
+						itemType={col.itemType}
+						values={col.values}
+						currency={col.currency}
+						scale={col.scale}
+						locale={col.locale}
+						dateFormat={col.dateFormat}
 						rowId={tableRow.original.id}
 						errors={errors}
+						validating={validating}
 						onUpdate={onCellUpdate}
 					/>
 				);
@@ -312,16 +594,14 @@ function buildColumns(
 				<div
 					className={cn(
 						"flex items-center gap-1",
-						errors.length > 0 && "text-destructive",
+						severity && SEVERITY_STYLES[severity].className,
 					)}
 				>
-					<span>{formatCellValue(value, col.type)}</span>
-					{errors.length > 0 && (
-						<span
-							className="text-destructive text-xs"
-							title={errors.map((e) => e.message).join(", ")}
-						>
-							⚠
+					<span>{formatCellValue(value, col.type, col)}</span>
+					{validating && <ValidatingIcon />}
+					{severity && (
+						<span title={errors.map((e) => e.message).join(", ")}>
+							<SeverityIcon severity={severity} size={14} />
 						</span>
 					)}
 				</div>
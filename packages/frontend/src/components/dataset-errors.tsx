@@ -0,0 +1,25 @@
+import type { DatasetError } from "@data-validator/validator-mastermind";
+import { SeverityIcon } from "@/components/data-table";
+
+interface DatasetErrorsProps {
+	errors: DatasetError[];
+}
+
+/** Problems with the file as a whole, which no single row can show. */
+export function DatasetErrors({ errors }: DatasetErrorsProps) {
+	if (errors.length === 0) return null;
+
+	return (
+		<div className="space-y-2">
+			<h2 className="text-base font-semibold">File issues</h2>
+			<ul className="space-y-1 rounded-md border p-3 text-sm">
+				{errors.map((error, i) => (
+					<li key={`${error.rule}-${i}`} className="flex items-center gap-2">
+						<SeverityIcon severity={error.severity} size={16} />
+						{error.message}
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
@@ -1,10 +1,53 @@
 import { useRef, useState, useCallback } from "react";
+import {
+	ParseError,
+	type DataValidatorError,
+} from "@data-validator/validator-mastermind";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
 interface FileUploadProps {
 	onFile: (file: File) => void;
-	error?: string;
+	error?: DataValidatorError;
+}
+
+function describeLocation(error: ParseError): string | null {
+	const parts: string[] = [];
+	if (error.line !== undefined) {
+		parts.push(
+			error.column !== undefined
+				? `Line ${error.line}, column ${error.column}`
+				: `Line ${error.line}`,
+		);
+	}
+	if (error.recordIndex !== undefined) {
+		parts.push(`record ${(error.recordIndex + 1).toLocaleString()}`);
+	}
+	if (error.offset !== undefined) {
+		parts.push(`byte ${error.offset.toLocaleString()}`);
+	}
+	return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+function ErrorDetails({ error }: { error: DataValidatorError }) {
+	const location = error instanceof ParseError ? describeLocation(error) : null;
+	const snippet = error instanceof ParseError ? error.snippet : undefined;
+
+	return (
+		<div className="flex max-w-md flex-col items-center gap-2" role="alert">
+			<p className="text-destructive text-center text-sm">{error.message}</p>
+			{location && <p className="text-muted-foreground text-xs">{location}</p>}
+			{snippet && (
+				<pre className="bg-muted max-w-full overflow-x-auto rounded px-3 py-2 font-mono text-xs">
+					{snippet.text}
+					{"\n"}
+					<span className="text-destructive">
+						{" ".repeat(snippet.pointer)}^
+					</span>
+				</pre>
+			)}
+		</div>
+	);
 }
 
 export function FileUpload({ onFile, error }: FileUploadProps) {
@@ -68,17 +111,17 @@ export function FileUpload({ onFile, error }: FileUploadProps) {
 				}}
 				tabIndex={0}
 				role="button"
-				aria-label="Upload JSON file"
+				aria-label="Upload data file"
 			>
 				<input
 					ref={inputRef}
 					type="file"
-					accept=".json,application/json"
+					accept=".json,.ndjson,.jsonl,.csv,.tsv,application/json,application/x-ndjson,text/csv,text/tab-separated-values"
 					className="hidden"
 					onChange={handleChange}
 				/>
 				<p className="text-muted-foreground text-sm">
-					Drag &amp; drop a JSON file here, or
+					Drag &amp; drop a JSON, NDJSON, CSV or TSV file here, or
 				</p>
 				<Button
 					variant="outline"
@@ -92,12 +135,11 @@ export function FileUpload({ onFile, error }: FileUploadProps) {
 					Browse file
 				</Button>
 				<p className="text-muted-foreground text-xs">
-					Array of flat objects · Max 5 MB
+					Array of objects, an object wrapping one, or a table with a header row ·
+					Max 500 MB
 				</p>
 			</div>
-			{error && (
-				<p className="text-destructive max-w-md text-center text-sm">{error}</p>
-			)}
+			{error && <ErrorDetails error={error} />}
 		</div>
 	);
 }
@@ -0,0 +1,77 @@
+import type { ListItem } from "@data-validator/validator-mastermind";
+import { X } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+
+interface ListEditorProps {
+	items: ListItem[];
+	onChange: (items: ListItem[]) => void;
+	draft: string;
+	onDraftChange: (draft: string) => void;
+	parseItem: (input: string) => ListItem;
+	onSubmit: () => void;
+	label: string;
+	invalid?: boolean;
+}
+
+export function ListEditor({
+	items,
+	onChange,
+	draft,
+	onDraftChange,
+	parseItem,
+	onSubmit,
+	label,
+	invalid,
+}: ListEditorProps) {
+	const addDraft = () => {
+		if (draft.trim() === "") return false;
+		onChange([...items, parseItem(draft)]);
+		onDraftChange("");
+		return true;
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === "Enter") {
+			e.preventDefault();
+			// Enter on an empty draft saves the list; otherwise it adds a chip.
+			if (!addDraft()) onSubmit();
+		} else if (e.key === "Backspace" && draft === "" && items.length > 0) {
+			onChange(items.slice(0, -1));
+		}
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			{items.length > 0 && (
+				<ul className="flex flex-wrap gap-1" aria-label={`${label} items`}>
+					{items.map((item, index) => (
+						<li
+							key={`${index}-${String(item)}`}
+							className="bg-muted flex items-center gap-1 rounded-full py-0.5 pr-1 pl-2 text-xs"
+						>
+							<span>{item === null ? "—" : String(item)}</span>
+							<button
+								type="button"
+								className="text-muted-foreground hover:text-foreground rounded-full"
+								aria-label={`Remove ${String(item)}`}
+								onClick={() => onChange(items.filter((_, i) => i !== index))}
+							>
+								<X className="size-3" />
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+			<Input
+				autoFocus
+				value={draft}
+				placeholder="Add item and press Enter"
+				onChange={(e) => onDraftChange(e.target.value)}
+				onKeyDown={handleKeyDown}
+				aria-label={`Add ${label} item`}
+				aria-invalid={invalid || undefined}
+			/>
+		</div>
+	);
+}
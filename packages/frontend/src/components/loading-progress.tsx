@@ -0,0 +1,42 @@
+import type { LoadProgress } from "@data-validator/validator-mastermind";
+
+interface LoadingProgressProps {
+	progress?: LoadProgress;
+}
+
+function formatMegabytes(bytes: number): string {
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function LoadingProgress({ progress }: LoadingProgressProps) {
+	if (!progress) {
+		return <p className="text-muted-foreground text-sm">Parsing file…</p>;
+	}
+
+	const { bytesRead, totalBytes, rowsParsed } = progress;
+	const percent = totalBytes
+		? Math.min(100, Math.round((bytesRead / totalBytes) * 100))
+		: null;
+
+	return (
+		<div className="flex w-full max-w-md flex-col gap-2">
+			<div
+				className="bg-muted h-2 w-full overflow-hidden rounded-full"
+				role="progressbar"
+				aria-valuemin={0}
+				aria-valuemax={100}
+				aria-valuenow={percent ?? undefined}
+			>
+				<div
+					className="bg-primary h-full transition-[width]"
+					style={{ width: `${percent ?? 100}%` }}
+				/>
+			</div>
+			<p className="text-muted-foreground text-center text-sm tabular-nums">
+				{formatMegabytes(bytesRead)}
+				{totalBytes ? ` of ${formatMegabytes(totalBytes)}` : ""} ·{" "}
+				{rowsParsed.toLocaleString()} row(s) parsed
+			</p>
+		</div>
+	);
+}
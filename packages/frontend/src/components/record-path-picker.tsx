@@ -0,0 +1,42 @@
+import type { RecordArrayCandidate } from "@data-validator/validator-mastermind";
+
+import { Button } from "@/components/ui/button";
+
+interface RecordPathPickerProps {
+	candidates: RecordArrayCandidate[];
+	onSelect: (recordPath: string) => void;
+	onCancel: () => void;
+}
+
+export function RecordPathPicker({
+	candidates,
+	onSelect,
+	onCancel,
+}: RecordPathPickerProps) {
+	return (
+		<div className="flex w-full max-w-md flex-col gap-3">
+			<p className="text-sm">
+				This file contains several lists of records. Which one should be loaded?
+			</p>
+			<ul className="flex flex-col gap-2">
+				{candidates.map((candidate) => (
+					<li key={candidate.path}>
+						<Button
+							variant="outline"
+							className="w-full justify-between"
+							onClick={() => onSelect(candidate.path)}
+						>
+							<code className="text-xs">{candidate.path}</code>
+							<span className="text-muted-foreground text-xs">
+								{candidate.length.toLocaleString()} record(s)
+							</span>
+						</Button>
+					</li>
+				))}
+			</ul>
+			<Button variant="ghost" size="sm" className="self-center" onClick={onCancel}>
+				Choose another file
+			</Button>
+		</div>
+	);
+}
@@ -1,9 +1,12 @@
-import type {
-	Column,
-	Row,
-	CellValue,
+import {
+	type Column,
+	type Row,
+	type CellValue,
+	type Severity,
+	Severities,
 } from "@data-validator/validator-mastermind";
 import { DataTable } from "@/components/data-table";
+import { cn } from "@/lib/utils";
 import {
 	Accordion,
 	AccordionContent,
@@ -28,6 +31,15 @@ export function ValidationErrorsTable({
 
 	if (errorRows.length === 0) return null;
 
+	const countRows = (severity: Severity) =>
+		errorRows.filter((r) =>
+			Object.values(r.errors).some((e) =>
+				e.some((error) => error.severity === severity),
+			),
+		).length;
+	const blocking = countRows(Severities.ERROR);
+	const warnings = countRows(Severities.WARNING);
+
 	const ROW_HEIGHT = 44;
 	const HEADER_HEIGHT = 44;
 	const height = `${Math.min(errorRows.length * ROW_HEIGHT + HEADER_HEIGHT, 300)}px`;
@@ -37,8 +49,18 @@ export function ValidationErrorsTable({
 	return (
 		<Accordion type="single" collapsible>
 			<AccordionItem value="errors">
-				<AccordionTrigger className="text-base font-semibold text-destructive hover:no-underline cursor-pointer">
-					Rows with errors ({errorRows.length})
+				<AccordionTrigger
+					className={cn(
+						"text-base font-semibold hover:no-underline cursor-pointer",
+						blocking > 0
+							? "text-destructive"
+							: warnings > 0
+								? "text-amber-600 dark:text-amber-500"
+								: "text-sky-600 dark:text-sky-400",
+					)}
+				>
+					Rows with issues ({errorRows.length}: {blocking} with errors,{" "}
+					{warnings} with warnings)
 				</AccordionTrigger>
 
 				<AccordionContent>
@@ -0,0 +1,23 @@
+import type { AsyncCustomRule } from "@data-validator/validator-mastermind";
+
+const KNOWN_NAME = /^[A-Z][a-z]+ [A-Z][a-z]+$/;
+
+/**
+ * Stand-in for a member lookup API, so the demo has an asynchronous rule to
+ * show: it answers after 50–150 ms and knows any "First Last" name.
+ */
+export const memberExists: AsyncCustomRule = {
+	async: true,
+	message: "No member named {value}",
+	validate: (value, { signal }) =>
+		new Promise((resolve, reject) => {
+			const timer = setTimeout(
+				() => resolve(typeof value === "string" && KNOWN_NAME.test(value)),
+				50 + Math.random() * 100,
+			);
+			signal.addEventListener("abort", () => {
+				clearTimeout(timer);
+				reject(signal.reason);
+			});
+		}),
+};
@@ -0,0 +1,105 @@
+import type { MessageCatalogue } from "@data-validator/validator-mastermind";
+
+/** Validation messages for German and French browsers; others get English. */
+export const messages: Record<string, Required<MessageCatalogue>> = {
+	de: {
+		EXPECTED_NUMBER: "Zahl erwartet",
+		EXPECTED_BOOLEAN: "Wahrheitswert erwartet",
+		EXPECTED_DATE: "Gültiges Datum erwartet",
+		EXPECTED_DATE_FORMAT: "Datum im Format {format} erwartet",
+		EXPECTED_LIST: "Liste von Werten erwartet",
+		EXPECTED_INTEGER: "Ganze Zahl erwartet",
+		EXPECTED_DECIMAL: "Dezimalzahl erwartet",
+		EXPECTED_EMAIL: "E-Mail-Adresse erwartet",
+		EXPECTED_URL: "URL erwartet",
+		EXPECTED_UUID: "UUID erwartet",
+		EXPECTED_TIME: "Uhrzeit erwartet (HH:MM oder HH:MM:SS)",
+		EXPECTED_DATETIME: "Datum mit Uhrzeit erwartet",
+		EXPECTED_CURRENCY: "Geldbetrag erwartet",
+		PRECISION: "Höchstens {precision} Stellen erlaubt",
+		SCALE: "Höchstens {scale} Nachkommastellen erlaubt",
+		REQUIRED: "Pflichtfeld",
+		MIN: "Wert muss mindestens {min} sein",
+		MAX: "Wert darf höchstens {max} sein",
+		PATTERN: "Wert entspricht nicht dem geforderten Muster",
+		MIN_LENGTH: "Mindestens {min} Zeichen erforderlich",
+		MAX_LENGTH: "Höchstens {max} Zeichen erlaubt",
+		MIN_ITEMS: "Liste muss mindestens {min} Einträge enthalten",
+		MAX_ITEMS: "Liste darf höchstens {max} Einträge enthalten",
+		UNIQUE_ITEMS: "Listeneinträge müssen eindeutig sein",
+		ITEM: "Eintrag {index}: {message}",
+		MISSING_KEY: "Dieser Schlüssel fehlt im Datensatz",
+		UNEXPECTED_KEY: "Dieser Schlüssel war im Datensatz nicht erwartet",
+		CUSTOM: "Wert erfüllt die Regel {name} nicht",
+		ASYNC_FAILED: "Die Prüfung {name} konnte nicht abgeschlossen werden",
+		ENUM: "Wert muss einer von {values} sein",
+		COMPARE_LT: "{field} muss kleiner als {other} sein",
+		COMPARE_LTE: "{field} darf höchstens {other} sein",
+		COMPARE_GT: "{field} muss größer als {other} sein",
+		COMPARE_GTE: "{field} muss mindestens {other} sein",
+		COMPARE_EQ: "{field} muss gleich {other} sein",
+		COMPARE_NE: "{field} muss sich von {other} unterscheiden",
+		REQUIRED_IF: "{field} ist erforderlich, wenn {other} {values} ist",
+		REQUIRED_IF_FILLED: "{field} ist erforderlich, wenn {other} ausgefüllt ist",
+		UNIQUE: "Wert ist nicht eindeutig; auch in Zeile {rows}",
+		MIN_ROWS: "Die Daten müssen mindestens {min} Zeilen haben, nicht {count}",
+		MAX_ROWS: "Die Daten dürfen höchstens {max} Zeilen haben, nicht {count}",
+		SUM_LT: "Die Summe von {field} muss kleiner als {total} sein, ist aber {sum}",
+		SUM_LTE: "Die Summe von {field} darf höchstens {total} sein, ist aber {sum}",
+		SUM_GT: "Die Summe von {field} muss größer als {total} sein, ist aber {sum}",
+		SUM_GTE: "Die Summe von {field} muss mindestens {total} sein, ist aber {sum}",
+		SUM_EQ: "Die Summe von {field} muss {total} sein, ist aber {sum}",
+		SUM_NE: "Die Summe von {field} darf nicht {total} sein",
+		CONTAINS: "{field} muss {values} mindestens einmal enthalten",
+	},
+	fr: {
+		EXPECTED_NUMBER: "Nombre attendu",
+		EXPECTED_BOOLEAN: "Valeur booléenne attendue",
+		EXPECTED_DATE: "Date valide attendue",
+		EXPECTED_DATE_FORMAT: "Date au format {format} attendue",
+		EXPECTED_LIST: "Liste de valeurs attendue",
+		EXPECTED_INTEGER: "Nombre entier attendu",
+		EXPECTED_DECIMAL: "Nombre décimal attendu",
+		EXPECTED_EMAIL: "Adresse e-mail attendue",
+		EXPECTED_URL: "URL attendue",
+		EXPECTED_UUID: "UUID attendu",
+		EXPECTED_TIME: "Heure attendue (HH:MM ou HH:MM:SS)",
+		EXPECTED_DATETIME: "Date et heure attendues",
+		EXPECTED_CURRENCY: "Montant attendu",
+		PRECISION: "{precision} chiffres au maximum",
+		SCALE: "{scale} décimales au maximum",
+		REQUIRED: "Ce champ est obligatoire",
+		MIN: "La valeur doit être au moins {min}",
+		MAX: "La valeur doit être au plus {max}",
+		PATTERN: "La valeur ne correspond pas au format requis",
+		MIN_LENGTH: "Au moins {min} caractères requis",
+		MAX_LENGTH: "{max} caractères au maximum",
+		MIN_ITEMS: "La liste doit contenir au moins {min} éléments",
+		MAX_ITEMS: "La liste doit contenir au plus {max} éléments",
+		UNIQUE_ITEMS: "Les éléments de la liste doivent être uniques",
+		ITEM: "Élément {index} : {message}",
+		MISSING_KEY: "Cette clé manque dans l'enregistrement",
+		UNEXPECTED_KEY: "Cette clé n'était pas attendue dans l'enregistrement",
+		CUSTOM: "La valeur ne respecte pas la règle {name}",
+		ASYNC_FAILED: "La vérification {name} n'a pas pu aboutir",
+		ENUM: "La valeur doit être l'une de {values}",
+		COMPARE_LT: "{field} doit être inférieur à {other}",
+		COMPARE_LTE: "{field} doit être au plus {other}",
+		COMPARE_GT: "{field} doit être supérieur à {other}",
+		COMPARE_GTE: "{field} doit être au moins {other}",
+		COMPARE_EQ: "{field} doit être égal à {other}",
+		COMPARE_NE: "{field} doit être différent de {other}",
+		REQUIRED_IF: "{field} est obligatoire lorsque {other} vaut {values}",
+		REQUIRED_IF_FILLED: "{field} est obligatoire lorsque {other} est renseigné",
+		UNIQUE: "Valeur en double ; aussi à la ligne {rows}",
+		MIN_ROWS: "Les données doivent compter au moins {min} lignes, et non {count}",
+		MAX_ROWS: "Les données doivent compter au plus {max} lignes, et non {count}",
+		SUM_LT: "La somme de {field} doit être inférieure à {total}, et non {sum}",
+		SUM_LTE: "La somme de {field} doit être au plus {total}, et non {sum}",
+		SUM_GT: "La somme de {field} doit être supérieure à {total}, et non {sum}",
+		SUM_GTE: "La somme de {field} doit être au moins {total}, et non {sum}",
+		SUM_EQ: "La somme de {field} doit être {total}, et non {sum}",
+		SUM_NE: "La somme de {field} ne doit pas être {total}",
+		CONTAINS: "{field} doit contenir {values} au moins une fois",
+	},
+};
@@ -0,0 +1,6 @@
+import { exposeWorker } from "@data-validator/validator-mastermind";
+import type { WorkerEndpoint } from "@data-validator/validator-mastermind";
+
+// The app is type-checked against the DOM lib, which types `self` as a Window
+// rather than a DedicatedWorkerGlobalScope.
+exposeWorker(self as unknown as WorkerEndpoint);
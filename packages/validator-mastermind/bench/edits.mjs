@@ -0,0 +1,123 @@
+// Times edits on a 100k-row data set against a 60 fps frame budget, then
+// checks the incrementally maintained errors against a full validation.
+// Run with `pnpm bench`, which builds the package first.
+import { DataStore, datasetErrors, validateAllRows } from "../dist/index.js";
+
+const ROWS = 100_000;
+const FRAME_BUDGET_MS = 16;
+const REGIONS = ["EMEA", "APAC", "AMER"];
+
+const rowRules = [
+  { type: "unique", columns: ["id"] },
+  { type: "compare", columns: ["end", "start"], operator: ">" },
+  { type: "required-if", columns: ["tracking", "status"], values: ["shipped"] },
+];
+const datasetRules = [
+  { type: "min-rows", value: 10 },
+  { type: "sum", column: "share", value: 100 },
+  { type: "contains", column: "region", values: REGIONS },
+];
+
+const records = Array.from({ length: ROWS }, (_, i) => ({
+  id: `id-${i}`,
+  email: `user${i}@example.com`,
+  region: REGIONS[i % REGIONS.length],
+  status: i % 5 === 0 ? "shipped" : "open",
+  tracking: i % 5 === 0 ? `T${i}` : null,
+  amount: i % 1000,
+  start: "2024-01-01",
+  end: "2024-02-01",
+  share: 100 / ROWS,
+}));
+
+const store = new DataStore({
+  maxFileSize: Infinity,
+  validationRules: {
+    email: [{ type: "pattern", value: "^\\S+@\\S+$" }],
+    amount: [
+      { type: "max", value: 900, when: { column: "region", values: ["EMEA"] } },
+    ],
+  },
+  rowRules,
+  datasetRules,
+});
+
+let start = performance.now();
+store.loadFromString(JSON.stringify(records), "bench.json");
+console.log(`load: ${(performance.now() - start).toFixed(0)} ms`);
+
+const ids = store.getRows().map((row) => row.id);
+const idAt = (i) => ids[(i * 7919) % ROWS];
+
+start = performance.now();
+store.updateCell(idAt(0), "email", "first@example.com");
+console.log(`first edit: ${(performance.now() - start).toFixed(1)} ms`);
+
+const scenarios = [
+  ["cell rule", (i) => store.updateCell(idAt(i), "email", `e${i}@example.com`)],
+  ["unique", (i) => store.updateCell(idAt(i), "id", `id-${(i * 31) % ROWS}`)],
+  ["row rule", (i) => store.updateCell(idAt(i), "start", "2024-03-01")],
+  ["condition", (i) => store.updateCell(idAt(i), "region", REGIONS[i % 3])],
+  ["dataset sum", (i) => store.updateCell(idAt(i), "share", i % 7)],
+  [
+    "batch of 100",
+    (i) =>
+      store.batchUpdateCells(
+        Array.from({ length: 100 }, (_, j) => ({
+          rowId: idAt(i * 100 + j),
+          columnKey: "amount",
+          value: j * 10,
+        })),
+      ),
+  ],
+];
+
+let failed = false;
+for (const [name, edit] of scenarios) {
+  const times = [];
+  for (let i = 1; i <= 200; i++) {
+    const before = performance.now();
+    edit(i);
+    times.push(performance.now() - before);
+  }
+  times.sort((a, b) => a - b);
+  const p95 = times[Math.floor(times.length * 0.95)];
+  const ok = p95 <= FRAME_BUDGET_MS;
+  if (!ok) failed = true;
+  console.log(
+    `${name.padEnd(14)} median ${times[times.length / 2].toFixed(2)} ms, p95 ${p95.toFixed(2)} ms ${ok ? "" : "(over budget)"}`,
+  );
+}
+
+start = performance.now();
+store.addRowRules([
+  { type: "compare", columns: ["start", "end"], operator: "<" },
+]);
+console.log(`addRowRules: ${(performance.now() - start).toFixed(0)} ms`);
+
+// The same cells validated from scratch must give the same errors.
+const columns = store.getColumns();
+const full = validateAllRows(
+  store.getRows().map((row) => ({ ...row, errors: {} })),
+  columns,
+  [...rowRules, { type: "compare", columns: ["start", "end"], operator: "<" }],
+);
+const normalize = (errors) =>
+  JSON.stringify(
+    Object.keys(errors)
+      .sort()
+      .map((key) => [key, errors[key].map((e) => JSON.stringify(e)).sort()]),
+  );
+const mismatches = store
+  .getRows()
+  .filter((row, i) => normalize(row.errors) !== normalize(full[i].errors));
+const datasetMatches =
+  JSON.stringify(store.getDatasetErrors()) ===
+  JSON.stringify(datasetErrors(full, columns, datasetRules));
+
+console.log(
+  mismatches.length === 0 && datasetMatches
+    ? "incremental results match a full pass"
+    : `incremental results differ from a full pass: ${mismatches.length} row(s)${datasetMatches ? "" : ", dataset errors"}`,
+);
+if (mismatches.length > 0 || !datasetMatches || failed) process.exitCode = 1;
@@ -0,0 +1,103 @@
+/** Results that settle this close together are delivered in one batch. */
+const FLUSH_INTERVAL_MS = 50;
+
+interface Job<T> {
+  key: string;
+  run: (signal: AbortSignal) => Promise<T>;
+  controller: AbortController;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Runs keyed asynchronous checks at most `concurrency` at a time. Queuing a
+ * key again cancels the check already waiting or running for it, so only
+ * the latest one can deliver a result.
+ */
+export class AsyncCheckQueue<T> {
+  private jobs = new Map<string, Job<T>>();
+  /** In queuing order; a `Set` so cancelled jobs leave it in constant time. */
+  private waiting = new Set<Job<T>>();
+  private running = 0;
+  private settled: T[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly onSettle: (results: T[]) => void,
+  ) {}
+
+  /**
+   * Queues `run` under `key`. With a delay, it only starts once `delayMs`
+   * pass without the key being queued again.
+   */
+  queue(
+    key: string,
+    run: (signal: AbortSignal) => Promise<T>,
+    delayMs = 0,
+  ): void {
+    this.cancel(key);
+    const job: Job<T> = { key, run, controller: new AbortController() };
+    this.jobs.set(key, job);
+
+    if (delayMs > 0) {
+      job.timer = setTimeout(() => this.enqueue(job), delayMs);
+    } else {
+      this.enqueue(job);
+    }
+  }
+
+  cancel(key: string): void {
+    const job = this.jobs.get(key);
+    if (!job) return;
+    this.jobs.delete(key);
+    this.waiting.delete(job);
+    clearTimeout(job.timer);
+    job.controller.abort();
+  }
+
+  /** Cancels every check, including results not yet delivered. */
+  cancelAll(): void {
+    for (const key of [...this.jobs.keys()]) this.cancel(key);
+    this.settled = [];
+    if (this.flushTimer !== null) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+  }
+
+  private enqueue(job: Job<T>): void {
+    this.waiting.add(job);
+    this.pump();
+  }
+
+  private pump(): void {
+    for (const job of this.waiting) {
+      if (this.running >= this.concurrency) break;
+      this.waiting.delete(job);
+      this.running++;
+      void this.start(job);
+    }
+  }
+
+  private async start(job: Job<T>): Promise<void> {
+    const { signal } = job.controller;
+    try {
+      const result = await job.run(signal);
+      if (!signal.aborted) this.settle(result);
+    } catch {
+      // A check that throws delivers nothing.
+    } finally {
+      if (this.jobs.get(job.key) === job) this.jobs.delete(job.key);
+      this.running--;
+      this.pump();
+    }
+  }
+
+  private settle(result: T): void {
+    this.settled.push(result);
+    this.flushTimer ??= setTimeout(() => {
+      const results = this.settled;
+      this.settled = [];
+      this.flushTimer = null;
+      this.onSettle(results);
+    }, FLUSH_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,356 @@
+import { ParseError } from "./types";
+import { readNumber } from "./locale";
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+const SNIFF_LINE_COUNT = 10;
+const SNIFF_MAX_CHARS = 64 * 1024;
+
+export interface CsvOptions {
+  delimiter?: string;
+  hasHeader?: boolean;
+  /** Locale numeric fields are written in; see `ParseOptions.locale`. */
+  locale?: string;
+}
+
+interface CsvRow {
+  fields: string[];
+  line: number;
+}
+
+export function parseCsvRecords(
+  input: string,
+  options: CsvOptions = {},
+): Record<string, unknown>[] {
+  const reader = new CsvReader(options);
+  const records = reader.push(input);
+  for (const record of reader.end()) records.push(record);
+  return records;
+}
+
+/**
+ * Incremental CSV reader. Text can be pushed in arbitrary chunks; records are
+ * returned as soon as their row is complete. The delimiter is sniffed from
+ * the first lines of input, so nothing is emitted until enough text arrived.
+ */
+export class CsvReader {
+  private tokenizer: CsvTokenizer | null = null;
+  private sample = "";
+  private keys: string[] | null = null;
+  private rowNumber = 0;
+  private recordCount = 0;
+
+  constructor(private readonly options: CsvOptions = {}) {}
+
+  push(text: string): Record<string, unknown>[] {
+    if (this.tokenizer) return this.toRecords(this.tokenizer.push(text));
+
+    this.sample += text;
+    if (
+      this.sample.length < SNIFF_MAX_CHARS &&
+      countNewlines(this.sample) < SNIFF_LINE_COUNT
+    ) {
+      return [];
+    }
+    return this.start();
+  }
+
+  end(): Record<string, unknown>[] {
+    const records = this.tokenizer ? [] : this.start();
+    for (const record of this.toRecords(this.tokenizer!.end())) {
+      records.push(record);
+    }
+
+    if (this.keys === null) {
+      throw new ParseError("Empty dataset: the CSV file contains no rows");
+    }
+    return records;
+  }
+
+  private start(): Record<string, unknown>[] {
+    const delimiter = this.options.delimiter ?? detectDelimiter(this.sample);
+    this.tokenizer = new CsvTokenizer(delimiter);
+    const records = this.toRecords(this.tokenizer.push(this.sample));
+    this.sample = "";
+    return records;
+  }
+
+  private toRecords(rows: CsvRow[]): Record<string, unknown>[] {
+    const records: Record<string, unknown>[] = [];
+
+    for (const row of rows) {
+      this.rowNumber++;
+
+      if (this.keys === null) {
+        const hasHeader =
+          this.options.hasHeader ?? detectHeader(row, this.options.locale);
+        this.keys = hasHeader
+          ? buildHeaderKeys(row.fields)
+          : row.fields.map((_, i) => `column_${i + 1}`);
+        if (hasHeader) continue;
+      }
+
+      records.push(this.toRecord(row, this.keys));
+    }
+
+    return records;
+  }
+
+  private toRecord(row: CsvRow, keys: string[]): Record<string, unknown> {
+    if (row.fields.length > keys.length) {
+      throw new ParseError(
+        `Invalid CSV: row ${this.rowNumber} (line ${row.line}) has ${row.fields.length} fields, expected ${keys.length}`,
+        { row: this.rowNumber, line: row.line, recordIndex: this.recordCount },
+      );
+    }
+    this.recordCount++;
+
+    const record: Record<string, unknown> = {};
+    keys.forEach((key, i) => {
+      const field = row.fields[i];
+      record[key] =
+        field === undefined ? null : coerceField(field, this.options.locale);
+    });
+    return record;
+  }
+}
+
+export function detectDelimiter(input: string): string {
+  const lines = sampleLines(input);
+
+  let best = ",";
+  let bestScore = 0;
+
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const counts = lines.map((line) => countOutsideQuotes(line, candidate));
+    const first = counts[0] ?? 0;
+    if (first === 0) continue;
+
+    // A delimiter that splits every sampled line into the same number of
+    // fields is a much stronger signal than one that merely appears often.
+    const consistent = counts.every((c) => c === first);
+    const score = consistent ? first * 1000 : counts.reduce((a, b) => a + b, 0);
+
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+function sampleLines(input: string): string[] {
+  const lines: string[] = [];
+  let start = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length && lines.length < SNIFF_LINE_COUNT; i++) {
+    const char = input[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "\n" && !inQuotes) {
+      const line = input.slice(start, i).replace(/\r$/, "");
+      if (line.trim().length > 0) lines.push(line);
+      start = i + 1;
+    }
+  }
+
+  if (lines.length < SNIFF_LINE_COUNT && start < input.length) {
+    const line = input.slice(start);
+    if (line.trim().length > 0) lines.push(line);
+  }
+
+  return lines;
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+
+  return count;
+}
+
+/**
+ * Splits CSV text into rows of raw field strings following RFC 4180:
+ * fields may be quoted, quotes inside quoted fields are doubled, and quoted
+ * fields may span lines. Blank lines are skipped. All lookahead is kept in
+ * state so a quote pair or CRLF may straddle two chunks.
+ */
+class CsvTokenizer {
+  private fields: string[] = [];
+  private field = "";
+  private line = 1;
+  private column = 0;
+  private rowLine = 1;
+  private rowCount = 0;
+  private inQuotes = false;
+  private quoteLine = 1;
+  private quoteInQuotes = false;
+  private afterQuote = false;
+  private afterCR = false;
+
+  constructor(private readonly delimiter: string) {}
+
+  push(text: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === "\n") continue;
+      }
+      this.column++;
+
+      if (this.inQuotes) {
+        if (this.quoteInQuotes) {
+          this.quoteInQuotes = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+          this.afterQuote = true;
+        } else if (char === '"') {
+          this.quoteInQuotes = true;
+          continue;
+        } else {
+          if (char === "\n") {
+            this.line++;
+            this.column = 0;
+          }
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === this.delimiter) {
+        this.fields.push(this.field);
+        this.field = "";
+        this.afterQuote = false;
+      } else if (char === "\n" || char === "\r") {
+        this.afterCR = char === "\r";
+        this.endRow(rows);
+        this.line++;
+        this.column = 0;
+        this.rowLine = this.line;
+      } else if (this.afterQuote) {
+        throw new ParseError(
+          `Invalid CSV: unexpected character after closing quote at row ${this.rowCount + 1} (line ${this.line}, column ${this.column})`,
+          { row: this.rowCount + 1, line: this.line, column: this.column },
+        );
+      } else if (char === '"' && this.field === "") {
+        this.inQuotes = true;
+        this.quoteLine = this.line;
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  end(): CsvRow[] {
+    const rows: CsvRow[] = [];
+
+    if (this.inQuotes && !this.quoteInQuotes) {
+      throw new ParseError(
+        `Invalid CSV: unterminated quoted field starting at row ${this.rowCount + 1} (line ${this.quoteLine})`,
+        { row: this.rowCount + 1, line: this.quoteLine },
+      );
+    }
+
+    if (this.quoteInQuotes) this.afterQuote = true;
+    if (this.field !== "" || this.fields.length > 0 || this.afterQuote) {
+      this.endRow(rows);
+    }
+    return rows;
+  }
+
+  private endRow(rows: CsvRow[]): void {
+    this.fields.push(this.field);
+    const isBlank =
+      this.fields.length === 1 && this.fields[0] === "" && !this.afterQuote;
+    if (!isBlank) {
+      rows.push({ fields: this.fields, line: this.rowLine });
+      this.rowCount++;
+    }
+    this.fields = [];
+    this.field = "";
+    this.inQuotes = false;
+    this.quoteInQuotes = false;
+    this.afterQuote = false;
+  }
+}
+
+/**
+ * Treats the first row as a header when it is made of distinct, non-empty
+ * labels that do not look like data values (numbers or booleans).
+ */
+function detectHeader(row: CsvRow, locale: string | undefined): boolean {
+  const labels = row.fields.map((f) => f.trim());
+
+  if (labels.some((l) => l === "")) return false;
+  if (new Set(labels).size !== labels.length) return false;
+  return labels.every((l) => typeof coerceField(l, locale) === "string");
+}
+
+function buildHeaderKeys(fields: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return fields.map((field, i) => {
+    const base = field.trim() || `column_${i + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+}
+
+/**
+ * CSV carries no types, so unquoted-looking literals are mapped back to JSON
+ * primitives. Numbers with leading zeros (zip codes, IDs) stay strings. With
+ * a `locale`, numbers are read in its notation, e.g. `1.234,5` for `de-DE`.
+ */
+/**
+ * Reads `text` as a number in `locale`'s notation, or returns `null`. Text
+ * with a leading zero is not read, as it is a zip code or an ID.
+ */
+export function readLocaleNumber(text: string, locale: string): number | null {
+  const trimmed = text.trim();
+  return /^[+-]?0\d/.test(trimmed) ? null : readNumber(trimmed, locale);
+}
+
+function coerceField(
+  field: string,
+  locale: string | undefined,
+): string | number | boolean | null {
+  const trimmed = field.trim();
+  if (trimmed === "") return null;
+
+  const lower = trimmed.toLowerCase();
+  if (lower === "true") return true;
+  if (lower === "false") return false;
+
+  if (locale) {
+    const num = readLocaleNumber(trimmed, locale);
+    if (num !== null) return num;
+  } else if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  return field;
+}
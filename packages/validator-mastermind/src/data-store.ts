@@ -1,35 +1,162 @@
-import { parse } from "./parse";
-import { validateAllRows, validateCell } from "./validate";
+import { AsyncCheckQueue } from "./async-queue";
+import type { DatasetIndex } from "./dataset-index";
+import { ColumnDependencies } from "./dependencies";
+import { toJsonSchema } from "./json-schema";
+import { resolveMessages } from "./messages";
+import { detectFormat, parse } from "./parse";
+import { ColumnProfiler } from "./profile";
+import { suggestRules } from "./suggest";
+import { insertRecords } from "./record-path";
+import { parseStream } from "./stream";
+import type { UniqueIndex } from "./unique";
+import {
+  assertCustomRuleName,
+  asyncRulesOf,
+  buildDatasetIndexes,
+  datasetIndexErrors,
+  isEmpty,
+  buildUniqueIndexes,
+  reportedColumns,
+  revalidateColumns,
+  revalidateRows,
+  ruleApplies,
+  uniqueErrors,
+  validateDataSet,
+  validateUnique,
+  validateAsyncRules,
+  withUniqueErrors,
+} from "./validate";
+import { type WorkerRequest, WorkerClient } from "./worker";
 import type {
+  AsyncCustomRule,
   CellEdit,
   CellValue,
   Column,
+  ColumnProfile,
+  CustomRule,
+  DataFormat,
   DataSet,
+  DatasetError,
+  DatasetRule,
+  DataSetMetadata,
   DataStoreOptions,
   DataStoreState,
+  ExportRecord,
+  JsonSchema,
+  LoadProgress,
+  MessageCatalogue,
+  ParseOptions,
+  RecordEnvelope,
+  RevalidationFailure,
+  RowRule,
   Row,
+  RuleSuggestion,
+  Severity,
+  StreamLoadOptions,
   Subscriber,
   Unsubscribe,
+  ValidationError,
   ValidationRule,
 } from "./types";
-import { DataValidatorError, FileSizeError } from "./types";
+import {
+  DataValidatorError,
+  FileSizeError,
+  Severities,
+  ValidationFailedError,
+} from "./types";
+
+type ResolvedOptions = Required<
+  Omit<
+    DataStoreOptions,
+    "worker" | "recordPath" | "schema" | "locale" | "messageLocale"
+  >
+> &
+  Pick<DataStoreOptions, "recordPath" | "schema" | "locale" | "messageLocale">;
 
-const DEFAULT_OPTIONS: Required<DataStoreOptions> = {
+const DEFAULT_OPTIONS: ResolvedOptions = {
   maxFileSize: 5 * 1024 * 1024,
   maxNestingDepth: 1,
   validationRules: {},
+  rowRules: [],
+  datasetRules: [],
+  customRules: {},
+  messages: {},
+  asyncConcurrency: 4,
+  asyncDebounceMs: 300,
+  skipInvalidLines: false,
+  flagMissingKeys: false,
+  flagUnexpectedKeys: false,
 };
 
+const PROGRESS_INTERVAL_MS = 50;
+
+interface AsyncCheckResult {
+  rowId: string;
+  columnKey: string;
+  errors: ValidationError[];
+}
+
 export class DataStore {
   private state: DataStoreState = { status: "idle" };
   private subscribers: Set<Subscriber> = new Set();
-  private options: Required<DataStoreOptions>;
+  private options: ResolvedOptions;
+  private worker: WorkerClient | null;
+  private loadController: AbortController | null = null;
+  private asyncChecks: AsyncCheckQueue<AsyncCheckResult>;
+  /** Profilers built on demand for the data set identified by `metadata`. */
+  private profiles: {
+    metadata: DataSetMetadata;
+    profilers: Map<string, ColumnProfiler>;
+  } | null = null;
+  /** `unique` indexes for the data set and row rules they were built from. */
+  private unique: {
+    metadata: DataSetMetadata;
+    rowRules: RowRule[];
+    indexes: UniqueIndex[];
+  } | null = null;
+  /** Indexes of the dataset rules, built on demand like the `unique` ones. */
+  private dataset: {
+    metadata: DataSetMetadata;
+    datasetRules: DatasetRule[];
+    indexes: DatasetIndex[];
+  } | null = null;
+  /** Row positions by id, which edits never change. */
+  private positions: {
+    metadata: DataSetMetadata;
+    byId: Map<string, number>;
+  } | null = null;
+  /** What each column's errors read, for the loaded columns and row rules. */
+  private dependencies: ColumnDependencies | null = null;
+  /** Numbers the ids given to rules added without one. */
+  private ruleCount = 0;
+  /** The worker re-validation in flight and the columns queued behind it. */
+  private revalidation: { queued: Set<string> } | null = null;
+  /** The `messages` catalogues merged for `messageLocale`. */
+  private messages: MessageCatalogue;
+
   constructor(options: DataStoreOptions = {}) {
+    const { worker, ...rest } = options;
     this.options = {
       ...DEFAULT_OPTIONS,
-      ...options,
+      ...rest,
       validationRules: { ...(options.validationRules ?? {}) },
+      rowRules: [...(options.rowRules ?? [])],
+      datasetRules: [...(options.datasetRules ?? [])],
+      customRules: { ...(options.customRules ?? {}) },
     };
+    Object.keys(this.options.customRules).forEach(assertCustomRuleName);
+    this.messages = resolveMessages(
+      this.options.messages,
+      this.options.messageLocale ?? this.options.locale,
+    );
+    for (const [key, rules] of Object.entries(this.options.validationRules)) {
+      this.options.validationRules[key] = this.withRuleIds(key, rules, []);
+    }
+    this.worker = worker ? new WorkerClient(worker) : null;
+    this.asyncChecks = new AsyncCheckQueue(
+      this.options.asyncConcurrency,
+      (results) => this.applyAsyncResults(results),
+    );
   }
 
   // ── State Access ──────────────────────────────────────────────────────
@@ -58,7 +185,10 @@ export class DataStore {
   }
 
   getRow(rowId: string): Row | undefined {
-    return this.getRows().find((r) => r.id === rowId);
+    const data = this.getData();
+    if (!data) return undefined;
+    const position = this.rowPositions(data).get(rowId);
+    return position === undefined ? undefined : data.rows[position];
   }
 
   getCellValue(rowId: string, columnKey: string): CellValue | undefined {
@@ -66,50 +196,76 @@ export class DataStore {
     return row?.cells[columnKey];
   }
 
+  /** Errors of the `datasetRules`, which belong to no row. */
+  getDatasetErrors(): DatasetError[] {
+    return this.getData()?.datasetErrors ?? [];
+  }
+
+  /**
+   * Statistics of one column. The first call scans the rows; after that the
+   * profile follows `updateCell` and `batchUpdateCells` edit by edit.
+   */
+  getColumnProfile(columnKey: string): ColumnProfile | null {
+    return this.profiler(columnKey)?.profile() ?? null;
+  }
+
+  /**
+   * Rules the loaded values already satisfy, with a confidence score, for
+   * one column or all of them. Accept them with `addValidationRules`.
+   */
+  suggestValidationRules(columnKey?: string): RuleSuggestion[] {
+    const columns = this.getColumns().filter(
+      (column) => columnKey === undefined || column.key === columnKey,
+    );
+
+    return columns.flatMap((column) => {
+      const profiler = this.profiler(column.key)!;
+      return suggestRules(
+        column,
+        profiler.profile(),
+        profiler.distinctValues(),
+      );
+    });
+  }
+
   // ── Data Loading ──────────────────────────────────────────────────────
 
-  loadFromString(jsonString: string, fileName: string = "unknown"): void {
-    this.setState({ status: "loading" });
+  loadFromString(
+    input: string,
+    fileName: string = "unknown",
+    format?: DataFormat,
+  ): void {
+    const options = this.parseOptions(fileName, format);
 
-    try {
-      const dataSet = parse(jsonString, {
-        maxFileSize: this.options.maxFileSize,
-        maxNestingDepth: this.options.maxNestingDepth,
-        fileName,
+    if (this.worker) {
+      void this.loadInWorker({
+        type: "parse",
+        input,
+        options,
+        validationRules: this.options.validationRules,
+        rowRules: this.options.rowRules,
+        datasetRules: this.options.datasetRules,
+        messages: this.messages,
       });
+      return;
+    }
 
-      const columnsWithRules = this.applyValidationRules(dataSet.columns);
-      const validatedRows = validateAllRows(dataSet.rows, columnsWithRules);
+    this.beginLoad();
+    this.setState({ status: "loading" });
 
-      this.setState({
-        status: "loaded",
-        data: {
-          ...dataSet,
-          columns: columnsWithRules,
-          rows: validatedRows,
-        },
-      });
+    try {
+      this.commitDataSet(parse(input, options));
     } catch (error) {
-      if (error instanceof DataValidatorError) {
-        this.setState({ status: "error", error });
-      } else {
-        this.setState({
-          status: "error",
-          error: new DataValidatorError(
-            "UNKNOWN_ERROR",
-            error instanceof Error
-              ? error.message
-              : "An unknown error occurred",
-          ),
-        });
-      }
+      this.setError(error, "UNKNOWN_ERROR");
     }
   }
 
-  async loadFromFile(file: File): Promise<void> {
-    this.setState({ status: "loading" });
-
+  async loadFromFile(
+    file: File,
+    options: Pick<StreamLoadOptions, "recordPath"> = {},
+  ): Promise<void> {
     if (file.size > this.options.maxFileSize) {
+      this.beginLoad();
       this.setState({
         status: "error",
         error: new FileSizeError(file.size, this.options.maxFileSize),
@@ -117,137 +273,488 @@ export class DataStore {
       return;
     }
 
-    try {
-      const text = await file.text();
-      this.loadFromString(text, file.name);
-    } catch (error) {
-      this.setState({
-        status: "error",
-        error: new DataValidatorError(
-          "FILE_READ_ERROR",
-          error instanceof Error ? error.message : "Failed to read file",
-        ),
+    const format = detectFormat(file.name, file.type);
+
+    if (this.worker) {
+      // Blobs are cloned cheaply across threads; the worker streams it itself.
+      await this.loadInWorker({
+        type: "parse-stream",
+        source: file,
+        options: {
+          ...this.parseOptions(file.name, format, options.recordPath),
+          totalBytes: file.size,
+        },
+        validationRules: this.options.validationRules,
+        rowRules: this.options.rowRules,
+        datasetRules: this.options.datasetRules,
+        messages: this.messages,
       });
+      return;
     }
-  }
 
-  // ── Editing ───────────────────────────────────────────────────────────
+    await this.loadFromStream(file.stream(), {
+      fileName: file.name,
+      totalBytes: file.size,
+      format,
+      recordPath: options.recordPath,
+    });
+  }
 
-  updateCell(rowId: string, columnKey: string, value: CellValue): void {
-    if (this.state.status !== "loaded") return;
+  /**
+   * Loads data incrementally from a byte stream. While reading, the state is
+   * `{ status: 'loading', progress }` and is refreshed at most every
+   * `PROGRESS_INTERVAL_MS`. Starting another load or calling `reset()`
+   * cancels the stream.
+   */
+  async loadFromStream(
+    stream: ReadableStream<Uint8Array>,
+    options: StreamLoadOptions = {},
+  ): Promise<void> {
+    const { fileName = "unknown", totalBytes = null, format } = options;
+    const parseOptions = this.parseOptions(
+      fileName,
+      format,
+      options.recordPath,
+    );
 
-    const { data } = this.state;
-    const rowIndex = data.rows.findIndex((r) => r.id === rowId);
-    if (rowIndex === -1) return;
+    if (this.worker) {
+      await this.loadInWorker(
+        {
+          type: "parse-stream",
+          source: stream,
+          options: { ...parseOptions, totalBytes },
+          validationRules: this.options.validationRules,
+          rowRules: this.options.rowRules,
+          datasetRules: this.options.datasetRules,
+          messages: this.messages,
+        },
+        [stream],
+      );
+      return;
+    }
 
-    const column = data.columns.find((c) => c.key === columnKey);
-    if (!column) return;
+    const controller = this.beginLoad();
+    this.setState({
+      status: "loading",
+      progress: { bytesRead: 0, totalBytes, rowsParsed: 0 },
+    });
 
-    const row = data.rows[rowIndex]!;
-    const newCells = { ...row.cells, [columnKey]: value };
+    try {
+      const dataSet = await parseStream(stream, {
+        ...parseOptions,
+        totalBytes,
+        signal: controller.signal,
+        onProgress: this.progressReporter(controller),
+      });
 
-    const cellErrors = validateCell(value, column);
-    const newErrors = { ...row.errors };
-    if (cellErrors.length > 0) {
-      newErrors[columnKey] = cellErrors;
-    } else {
-      delete newErrors[columnKey];
+      if (controller.signal.aborted) return;
+      this.commitDataSet(dataSet);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.setError(error, "FILE_READ_ERROR");
     }
+  }
 
-    const newRow: Row = { ...row, cells: newCells, errors: newErrors };
-    const newRows = [...data.rows];
-    newRows[rowIndex] = newRow;
+  // ── Editing ───────────────────────────────────────────────────────────
 
-    this.setState({
-      status: "loaded",
-      data: { ...data, rows: newRows },
-    });
+  updateCell(rowId: string, columnKey: string, value: CellValue): void {
+    this.batchUpdateCells([{ rowId, columnKey, value }]);
   }
 
+  /**
+   * Applies the edits in one notification. Only the columns reading an
+   * edited cell are re-checked, and `unique` and dataset rules are updated
+   * through their indexes, so the cost follows the edits, not the rows.
+   */
   batchUpdateCells(edits: CellEdit[]): void {
     if (this.state.status !== "loaded") return;
 
     const { data } = this.state;
+    const positions = this.rowPositions(data);
+    const uniqueIndexes = this.uniqueIndexes(data);
+    const datasetIndexes = this.datasetIndexes(data);
     const newRows = [...data.rows];
-    const rowIndexMap = new Map<string, number>();
-    data.rows.forEach((row, i) => rowIndexMap.set(row.id, i));
+    /** Edited column keys per row index, re-validated once all edits are in. */
+    const editedColumns = new Map<number, string[]>();
+    let datasetChanged = false;
 
     for (const edit of edits) {
-      const rowIndex = rowIndexMap.get(edit.rowId);
+      const rowIndex = positions.get(edit.rowId);
       if (rowIndex === undefined) continue;
 
       const column = data.columns.find((c) => c.key === edit.columnKey);
       if (!column) continue;
 
       const row = newRows[rowIndex]!;
+      const previous = row.cells[edit.columnKey];
       const newCells = { ...row.cells, [edit.columnKey]: edit.value };
-      const cellErrors = validateCell(edit.value, column);
-      const newErrors = { ...row.errors };
-
-      if (cellErrors.length > 0) {
-        newErrors[edit.columnKey] = cellErrors;
-      } else {
-        delete newErrors[edit.columnKey];
+      this.updateProfile(edit.columnKey, previous, edit.value);
+      for (const index of datasetIndexes) {
+        if (index.rule.column !== edit.columnKey) continue;
+        index.update(rowIndex, previous, edit.value);
+        datasetChanged = true;
       }
 
-      newRows[rowIndex] = { ...row, cells: newCells, errors: newErrors };
+      newRows[rowIndex] = { ...row, cells: newCells };
+      const edited = editedColumns.get(rowIndex) ?? [];
+      edited.push(edit.columnKey);
+      editedColumns.set(rowIndex, edited);
     }
+    if (editedColumns.size === 0) return;
+
+    const dependencies = this.columnDependencies(data.columns);
+    const revalidated = new Map<number, Set<string>>();
+    for (const [rowIndex, edited] of editedColumns) {
+      const row = newRows[rowIndex]!;
+      const keys = dependencies.affectedBy(edited);
+      revalidated.set(rowIndex, keys);
+      newRows[rowIndex] = {
+        ...row,
+        errors: revalidateColumns(
+          row,
+          data.columns,
+          this.options.rowRules,
+          keys,
+          this.options.customRules,
+          this.messages,
+        ),
+      };
+    }
+    this.refreshUniqueErrors(
+      newRows,
+      editedColumns.keys(),
+      uniqueIndexes,
+      data.columns,
+    );
+    this.queueAsyncChecks(
+      newRows,
+      data.columns,
+      revalidated,
+      this.options.asyncDebounceMs,
+    );
 
     this.setState({
-      status: "loaded",
-      data: { ...data, rows: newRows },
+      ...this.state,
+      data: {
+        ...data,
+        rows: newRows,
+        datasetErrors: datasetChanged
+          ? datasetIndexErrors(
+              datasetIndexes,
+              newRows.length,
+              data.columns,
+              this.messages,
+            )
+          : data.datasetErrors,
+      },
     });
   }
 
+  /**
+   * Appends rules to a column's rules. Rules without an `id` are given one;
+   * only that column is re-validated.
+   */
   addValidationRules(columnKey: string, rules: ValidationRule[]): void {
-    this.options.validationRules[columnKey] = [
-      ...(this.options.validationRules[columnKey] ?? []),
-      ...rules,
-    ];
+    const current = this.options.validationRules[columnKey] ?? [];
+    const added = this.withRuleIds(
+      columnKey,
+      rules,
+      this.getEffectiveRules(columnKey),
+    );
+    this.replaceValidationRules({ [columnKey]: [...current, ...added] });
+  }
 
-    if (this.state.status === "loaded") {
-      const columnsWithRules = this.applyValidationRules(
-        this.state.data.columns,
-      );
-      const validatedRows = validateAllRows(
-        this.state.data.rows,
-        columnsWithRules,
+  /** Replaces a column's rules. Rules from a `schema` are kept. */
+  setValidationRules(columnKey: string, rules: ValidationRule[]): void {
+    const own = new Set(
+      (this.options.validationRules[columnKey] ?? []).map((rule) => rule.id),
+    );
+    const schemaRules = this.getEffectiveRules(columnKey).filter(
+      (rule) => !own.has(rule.id),
+    );
+    this.replaceValidationRules({
+      [columnKey]: this.withRuleIds(columnKey, rules, schemaRules),
+    });
+  }
+
+  /**
+   * Removes a column's rules by `id`. Rules from a `schema` are removed from
+   * the loaded column; the next load brings them back.
+   */
+  removeValidationRules(columnKey: string, ruleIds: string[]): void {
+    const ids = new Set(ruleIds);
+    const current = this.options.validationRules[columnKey] ?? [];
+    this.replaceValidationRules(
+      { [columnKey]: current.filter((rule) => !ids.has(rule.id!)) },
+      ids,
+    );
+  }
+
+  /** Removes the rules of one column, or of all columns without a key. */
+  clearValidationRules(columnKey?: string): void {
+    const keys =
+      columnKey === undefined
+        ? Object.keys(this.options.validationRules)
+        : [columnKey];
+    this.replaceValidationRules(
+      Object.fromEntries(keys.map((key) => [key, []])),
+    );
+  }
+
+  /**
+   * The rules a column is validated with: those from a `schema` followed by
+   * the store's own. Before a load, only the store's own.
+   */
+  getEffectiveRules(columnKey: string): ValidationRule[] {
+    if (this.state.status !== "loaded") {
+      return [...(this.options.validationRules[columnKey] ?? [])];
+    }
+    const column = this.state.data.columns.find((c) => c.key === columnKey);
+    return [...(column?.validation ?? [])];
+  }
+
+  /**
+   * Adds rules over several cells of a row. Like `addValidationRules`, they
+   * are kept for later loads, and the columns they report on are
+   * re-validated.
+   */
+  addRowRules(rules: RowRule[]): void {
+    this.options.rowRules = [...this.options.rowRules, ...rules];
+    if (this.state.status !== "loaded") return;
+    this.revalidateKeys(
+      this.state.data.columns,
+      new Set(rules.flatMap(reportedColumns)),
+    );
+  }
+
+  /**
+   * Adds rules over all rows together. They are kept for later loads and
+   * checked against the loaded rows right away.
+   */
+  addDatasetRules(rules: DatasetRule[]): void {
+    this.options.datasetRules = [...this.options.datasetRules, ...rules];
+    if (this.state.status !== "loaded") return;
+
+    const { data } = this.state;
+    this.setState({
+      ...this.state,
+      data: {
+        ...data,
+        datasetErrors: datasetIndexErrors(
+          this.datasetIndexes(data),
+          data.rows.length,
+          data.columns,
+          this.messages,
+        ),
+      },
+    });
+  }
+
+  /**
+   * Registers a rule type of your own under `name`, usable in
+   * `validationRules` and schemas like a built-in. Columns with rules that
+   * already name it are re-validated, so those take effect. With a `worker`,
+   * register the same rule there through `exposeWorker`, as functions cannot
+   * be sent.
+   */
+  registerRule<P extends object>(
+    name: string,
+    rule: CustomRule<P> | AsyncCustomRule<P>,
+  ): void {
+    assertCustomRuleName(name);
+    this.options.customRules = { ...this.options.customRules, [name]: rule };
+    if (this.state.status !== "loaded") return;
+
+    const { columns } = this.state.data;
+    const keys = columns
+      .filter((column) => usesRuleType(column.validation ?? [], name))
+      .map((column) => column.key);
+    this.revalidateKeys(columns, new Set(keys));
+  }
+
+  /**
+   * Gives each rule an `id`, keeping given ones unique among `current`.
+   * Generated ids skip those already given, in `current` or in `rules`.
+   */
+  private withRuleIds(
+    columnKey: string,
+    rules: ValidationRule[],
+    current: ValidationRule[],
+  ): ValidationRule[] {
+    const ids = new Set(current.map((rule) => rule.id));
+    const taken = new Set([...ids, ...rules.map((rule) => rule.id)]);
+    return rules.map((rule) => {
+      let id = rule.id;
+      while (id === undefined || (rule.id === undefined && taken.has(id))) {
+        id = `rule-${++this.ruleCount}`;
+      }
+      if (ids.has(id)) {
+        throw new DataValidatorError(
+          "INVALID_RULE",
+          `Rule id "${id}" is already used in column "${columnKey}"`,
+        );
+      }
+      ids.add(id);
+      return { ...rule, id };
+    });
+  }
+
+  /**
+   * Swaps in the store's rules for the columns in `changes` and re-validates
+   * just those columns, on the worker when there is one. The loaded columns
+   * hold the schema's rules followed by the store's, which are told apart by
+   * their ids.
+   */
+  private replaceValidationRules(
+    changes: Record<string, ValidationRule[]>,
+    removed: ReadonlySet<string> = new Set(),
+  ): void {
+    const previous = this.options.validationRules;
+    this.options.validationRules = { ...previous, ...changes };
+    if (this.state.status !== "loaded") return;
+
+    const { data } = this.state;
+    const keys = new Set(Object.keys(changes));
+    const columns = data.columns.map((column) => {
+      const rules = changes[column.key];
+      if (!rules) return column;
+      const stale = new Set((previous[column.key] ?? []).map((r) => r.id));
+      const schemaRules = (column.validation ?? []).filter(
+        (rule) => !stale.has(rule.id) && !removed.has(rule.id!),
       );
-      this.setState({
-        status: "loaded",
-        data: {
-          ...this.state.data,
-          columns: columnsWithRules,
-          rows: validatedRows,
-        },
-      });
+      return { ...column, validation: [...schemaRules, ...rules] };
+    });
+
+    this.revalidateKeys(columns, keys);
+  }
+
+  /**
+   * Re-validates the columns in `keys` of every loaded row against
+   * `columns`, on the worker when there is one. The new columns take effect
+   * at once; with a worker, their cells catch up when it replies.
+   */
+  private revalidateKeys(columns: Column[], keys: Set<string>): void {
+    if (this.state.status !== "loaded" || keys.size === 0) return;
+
+    const data = this.state.data;
+    if (this.worker) {
+      if (columns !== data.columns) {
+        this.setState({ ...this.state, data: { ...data, columns } });
+      }
+      if (this.revalidation) {
+        for (const key of keys) this.revalidation.queued.add(key);
+      } else {
+        void this.revalidateInWorker(keys);
+      }
+      return;
     }
+
+    this.setState({
+      status: "loaded",
+      data: this.revalidatedData(data, columns, keys),
+    });
+  }
+
+  /** `data` with the columns in `keys` re-checked against `columns`. */
+  private revalidatedData(
+    data: DataSet,
+    columns: Column[],
+    keys: Set<string>,
+  ): DataSet {
+    const rows = revalidateRows(
+      data.rows,
+      columns,
+      this.options.rowRules,
+      keys,
+      this.options.customRules,
+      this.messages,
+      this.uniqueIndexes(data),
+    );
+    this.queueAsyncChecks(
+      rows,
+      columns,
+      rows.map((_, position) => [position, keys]),
+      0,
+    );
+    return { ...data, columns, rows };
   }
 
   // ── State Management ──────────────────────────────────────────────────
 
   reset(): void {
+    this.beginLoad();
     this.setState({ status: "idle" });
   }
 
-  getErrorCount(): number {
+  /** Cells with at least one error of `severity`; blocking errors by default. */
+  getErrorCount(severity: Severity = Severities.ERROR): number {
     if (this.state.status !== "loaded") return 0;
     return this.state.data.rows.reduce(
-      (count, row) => count + Object.keys(row.errors).length,
+      (count, row) =>
+        count +
+        Object.values(row.errors).filter((errors) =>
+          hasSeverity(errors, severity),
+        ).length,
       0,
     );
   }
 
-  getRowsWithErrors(): Row[] {
+  /** Rows with at least one error of `severity`; blocking errors by default. */
+  getRowsWithErrors(severity: Severity = Severities.ERROR): Row[] {
     if (this.state.status !== "loaded") return [];
-    return this.state.data.rows.filter(
-      (row) => Object.keys(row.errors).length > 0,
+    return this.state.data.rows.filter((row) =>
+      Object.values(row.errors).some((errors) => hasSeverity(errors, severity)),
     );
   }
 
-  exportData(): Record<string, CellValue>[] | null {
+  /**
+   * With `requireValid`, throws a `ValidationFailedError` listing the
+   * blocking cell and dataset errors instead of exporting; warnings and info
+   * never block.
+   */
+  exportData(options: { requireValid?: boolean } = {}): ExportRecord[] | null {
+    if (this.state.status !== "loaded") return null;
+    const { columns, rows, datasetErrors = [] } = this.state.data;
+    if (options.requireValid) {
+      const blocking = rows.flatMap((row) =>
+        Object.values(row.errors)
+          .flat()
+          .filter((error) => error.severity === Severities.ERROR),
+      );
+      const blockingDataset = datasetErrors.filter(
+        (error) => error.severity === Severities.ERROR,
+      );
+      const count = blocking.length + blockingDataset.length;
+      if (count > 0) {
+        throw new ValidationFailedError(
+          `Cannot export: ${count} validation error(s)`,
+          blocking,
+          blockingDataset,
+        );
+      }
+    }
+    return rows.map((row) => buildExportRecord(row, columns));
+  }
+
+  /**
+   * Like `exportData()`, but puts the records back into the envelope they
+   * were read from, so a wrapped document round-trips with its other fields.
+   */
+  exportDocument(
+    options: { requireValid?: boolean } = {},
+  ): ExportRecord[] | RecordEnvelope | null {
+    const records = this.exportData(options);
+    if (!records || this.state.status !== "loaded") return records;
+
+    const { envelope, recordPath } = this.state.data.metadata;
+    if (!envelope || recordPath === undefined) return records;
+    return insertRecords(envelope, recordPath, records);
+  }
+
+  /** The loaded columns and their effective rules as a JSON Schema for one record. */
+  exportJsonSchema(): JsonSchema | null {
     if (this.state.status !== "loaded") return null;
-    return this.state.data.rows.map((row) => ({ ...row.cells }));
+    return toJsonSchema(this.state.data.columns);
   }
 
   // ── Subscriptions ─────────────────────────────────────────────────────
@@ -261,6 +768,439 @@ export class DataStore {
 
   // ── Private ───────────────────────────────────────────────────────────
 
+  /** Cancels any in-flight stream load and hands out a signal for the next one. */
+  private beginLoad(): AbortController {
+    this.loadController?.abort();
+    this.asyncChecks.cancelAll();
+    this.revalidation = null;
+    this.loadController = new AbortController();
+    return this.loadController;
+  }
+
+  private profiler(columnKey: string): ColumnProfiler | null {
+    const data = this.getData();
+    const column = data?.columns.find((c) => c.key === columnKey);
+    if (!data || !column) return null;
+
+    if (this.profiles?.metadata !== data.metadata) {
+      this.profiles = { metadata: data.metadata, profilers: new Map() };
+    }
+
+    let profiler = this.profiles.profilers.get(columnKey);
+    if (!profiler) {
+      profiler = new ColumnProfiler(columnKey, column);
+      for (const row of data.rows) profiler.add(row.cells[columnKey]);
+      this.profiles.profilers.set(columnKey, profiler);
+    }
+    return profiler;
+  }
+
+  /**
+   * Indexes of the `unique` row rules, built on demand like the profilers.
+   * Adding rules keeps the indexes of the rules already there.
+   */
+  private uniqueIndexes(data: DataSet): UniqueIndex[] {
+    const { rowRules } = this.options;
+    if (
+      this.unique?.metadata !== data.metadata ||
+      this.unique.rowRules !== rowRules
+    ) {
+      const previous =
+        this.unique?.metadata === data.metadata ? this.unique.indexes : [];
+      this.unique = {
+        metadata: data.metadata,
+        rowRules,
+        indexes: buildUniqueIndexes(data.rows, rowRules, previous),
+      };
+    }
+    return this.unique.indexes;
+  }
+
+  /** Indexes of the dataset rules, built on demand like the `unique` ones. */
+  private datasetIndexes(data: DataSet): DatasetIndex[] {
+    const { datasetRules } = this.options;
+    if (
+      this.dataset?.metadata !== data.metadata ||
+      this.dataset.datasetRules !== datasetRules
+    ) {
+      const previous =
+        this.dataset?.metadata === data.metadata ? this.dataset.indexes : [];
+      this.dataset = {
+        metadata: data.metadata,
+        datasetRules,
+        indexes: buildDatasetIndexes(
+          data.rows,
+          data.columns,
+          datasetRules,
+          previous,
+        ),
+      };
+    }
+    return this.dataset.indexes;
+  }
+
+  private rowPositions(data: DataSet): Map<string, number> {
+    if (this.positions?.metadata !== data.metadata) {
+      this.positions = {
+        metadata: data.metadata,
+        byId: new Map(data.rows.map((row, position) => [row.id, position])),
+      };
+    }
+    return this.positions.byId;
+  }
+
+  private columnDependencies(columns: Column[]): ColumnDependencies {
+    const { rowRules, customRules } = this.options;
+    if (
+      this.dependencies?.columns !== columns ||
+      this.dependencies.rowRules !== rowRules ||
+      this.dependencies.customRules !== customRules
+    ) {
+      this.dependencies = new ColumnDependencies(
+        columns,
+        rowRules,
+        customRules,
+      );
+    }
+    return this.dependencies;
+  }
+
+  /**
+   * Files the edited rows under their new keys and re-attaches `unique`
+   * errors to them and to the rows they left or joined, in place.
+   */
+  private refreshUniqueErrors(
+    rows: Row[],
+    edited: Iterable<number>,
+    indexes: UniqueIndex[],
+    columns: Column[],
+  ): void {
+    if (indexes.length === 0) return;
+
+    const affected = new Set<number>();
+    for (const position of edited) {
+      affected.add(position);
+      for (const index of indexes) {
+        for (const other of index.update(position, rows[position]!)) {
+          affected.add(other);
+        }
+      }
+    }
+    for (const position of affected) {
+      rows[position] = withUniqueErrors(
+        rows[position]!,
+        uniqueErrors(rows, position, indexes, columns, this.messages),
+      );
+    }
+  }
+
+  /** Restarts the asynchronous rules of every cell after a full validation. */
+  private withAsyncChecks(data: DataSet): DataSet {
+    this.asyncChecks.cancelAll();
+    const rows = [...data.rows];
+    const keys = data.columns.map((column) => column.key);
+    this.queueAsyncChecks(
+      rows,
+      data.columns,
+      rows.map((_, position) => [position, keys]),
+      0,
+    );
+    return { ...data, rows };
+  }
+
+  /**
+   * Restarts the asynchronous rules of the given cells, once `delayMs` pass,
+   * and updates the rows' `pending` lists in place.
+   */
+  private queueAsyncChecks(
+    rows: Row[],
+    columns: Column[],
+    cells: Iterable<[number, Iterable<string>]>,
+    delayMs: number,
+  ): void {
+    const { customRules } = this.options;
+    const columnsByKey = new Map(columns.map((column) => [column.key, column]));
+    const asyncColumns = new Map<string, ValidationRule[]>();
+    for (const column of columns) {
+      const rules = asyncRulesOf(column, customRules);
+      if (rules.length > 0) asyncColumns.set(column.key, rules);
+    }
+
+    for (const [position, keys] of cells) {
+      const row = rows[position]!;
+      if (asyncColumns.size === 0 && !row.pending) continue;
+      const pending = new Set(row.pending);
+      let changed = false;
+
+      for (const key of keys) {
+        const column = columnsByKey.get(key);
+        const rules = asyncColumns
+          .get(key)
+          ?.filter((rule) => ruleApplies(rule, row, columns));
+        const checkKey = JSON.stringify([row.id, key]);
+        const value = row.cells[key];
+        if (!column || !rules?.length || isEmpty(value)) {
+          this.asyncChecks.cancel(checkKey);
+          if (pending.delete(key)) changed = true;
+          continue;
+        }
+
+        this.asyncChecks.queue(
+          checkKey,
+          async (signal) => ({
+            rowId: row.id,
+            columnKey: key,
+            errors: await validateAsyncRules(
+              value,
+              column,
+              row,
+              rules,
+              customRules,
+              signal,
+              this.messages,
+            ),
+          }),
+          delayMs,
+        );
+        if (!pending.has(key)) {
+          pending.add(key);
+          changed = true;
+        }
+      }
+
+      if (changed) rows[position] = withPending(row, pending);
+    }
+  }
+
+  private applyAsyncResults(results: AsyncCheckResult[]): void {
+    if (this.state.status !== "loaded") return;
+
+    const { data } = this.state;
+    const { customRules } = this.options;
+    const asyncRules = new Set(
+      Object.keys(customRules).filter((name) => customRules[name]!.async),
+    );
+    const positions = this.rowPositions(data);
+    const newRows = [...data.rows];
+
+    for (const { rowId, columnKey, errors } of results) {
+      const position = positions.get(rowId);
+      if (position === undefined) continue;
+
+      const row = newRows[position]!;
+      const columnErrors = [
+        ...(row.errors[columnKey] ?? []).filter(
+          (error) => !asyncRules.has(error.rule),
+        ),
+        ...errors,
+      ];
+      const newErrors = { ...row.errors };
+      if (columnErrors.length > 0) newErrors[columnKey] = columnErrors;
+      else delete newErrors[columnKey];
+
+      const pending = new Set(row.pending);
+      pending.delete(columnKey);
+      newRows[position] = withPending({ ...row, errors: newErrors }, pending);
+    }
+
+    this.setState({
+      ...this.state,
+      data: { ...data, rows: newRows },
+    });
+  }
+
+  private updateProfile(
+    columnKey: string,
+    previous: CellValue | undefined,
+    value: CellValue,
+  ): void {
+    const profiler = this.profiles?.profilers.get(columnKey);
+    if (!profiler) return;
+    profiler.remove(previous);
+    profiler.add(value);
+  }
+
+  private parseOptions(
+    fileName: string,
+    format?: DataFormat,
+    recordPath: string | undefined = this.options.recordPath,
+  ): ParseOptions {
+    return {
+      maxFileSize: this.options.maxFileSize,
+      maxNestingDepth: this.options.maxNestingDepth,
+      fileName,
+      format: format ?? detectFormat(fileName),
+      skipInvalidLines: this.options.skipInvalidLines,
+      flagMissingKeys: this.options.flagMissingKeys,
+      flagUnexpectedKeys: this.options.flagUnexpectedKeys,
+      recordPath,
+      schema: this.options.schema,
+      locale: this.options.locale,
+    };
+  }
+
+  private progressReporter(
+    controller: AbortController,
+  ): (progress: LoadProgress) => void {
+    let lastProgressAt = 0;
+
+    return (progress) => {
+      const now = Date.now();
+      if (controller.signal.aborted) return;
+      if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+      lastProgressAt = now;
+      this.setState({ status: "loading", progress });
+    };
+  }
+
+  private commitDataSet(dataSet: DataSet): void {
+    const data = this.withAsyncChecks(
+      validateDataSet(
+        dataSet,
+        this.options.validationRules,
+        this.options.rowRules,
+        this.options.customRules,
+        this.messages,
+        this.options.datasetRules,
+      ),
+    );
+    this.buildIndexes(data);
+    this.setState({ status: "loaded", data });
+  }
+
+  /** Builds what edits look up now, so the first edit does not pay for it. */
+  private buildIndexes(data: DataSet): void {
+    this.rowPositions(data);
+    this.uniqueIndexes(data);
+    this.datasetIndexes(data);
+    this.columnDependencies(data.columns);
+  }
+
+  private async loadInWorker(
+    request: WorkerRequest,
+    transfer?: Transferable[],
+  ): Promise<void> {
+    const controller = this.beginLoad();
+    const totalBytes =
+      request.type === "parse-stream"
+        ? (request.options.totalBytes ?? null)
+        : null;
+
+    this.setState(
+      request.type === "parse-stream"
+        ? {
+            status: "loading",
+            progress: { bytesRead: 0, totalBytes, rowsParsed: 0 },
+          }
+        : { status: "loading" },
+    );
+
+    try {
+      const dataSet = await this.worker!.request<DataSet>(request, {
+        transfer,
+        signal: controller.signal,
+        onProgress: this.progressReporter(controller),
+      });
+
+      if (controller.signal.aborted) return;
+      const data = this.withAsyncChecks(dataSet);
+      this.buildIndexes(data);
+      this.setState({ status: "loaded", data });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.setError(error, "UNKNOWN_ERROR");
+    }
+  }
+
+  /**
+   * Re-validates the columns in `keys` off-thread. Rows edited while the
+   * worker was busy are re-checked locally before the result lands, and
+   * rule changes made meanwhile wait in `queued` for the next round, since
+   * the worker checked their columns against the old rules.
+   */
+  private async revalidateInWorker(keys: Set<string>): Promise<void> {
+    if (this.state.status !== "loaded") return;
+    const data = this.state.data;
+    const revalidation = { queued: new Set<string>() };
+    this.revalidation = revalidation;
+
+    try {
+      const validatedRows = await this.worker!.request<Row[]>({
+        type: "validate",
+        rows: data.rows,
+        columns: data.columns,
+        rowRules: this.options.rowRules,
+        keys: [...keys],
+        messages: this.messages,
+      });
+
+      if (this.revalidation !== revalidation) return;
+      if (this.state.status !== "loaded") return;
+      const current = this.state.data;
+      const { columns } = current;
+
+      let edited = false;
+      const rows = current.rows.map((row, index) => {
+        if (row === data.rows[index]) return validatedRows[index]!;
+        edited = true;
+        return {
+          ...row,
+          errors: revalidateColumns(
+            row,
+            columns,
+            this.options.rowRules,
+            keys,
+            this.options.customRules,
+            this.messages,
+          ),
+        };
+      });
+      // The worker saw the edited rows' old values, so duplicates of them
+      // are re-checked here.
+      const newRows = edited
+        ? validateUnique(rows, columns, this.options.rowRules, this.messages)
+        : rows;
+      this.queueAsyncChecks(
+        newRows,
+        columns,
+        newRows.map((_, position) => [position, keys]),
+        0,
+      );
+
+      this.setState({
+        status: "loaded",
+        data: { ...current, rows: newRows },
+        revalidationFailure: withoutKeys(this.state.revalidationFailure, keys),
+      });
+    } catch (error) {
+      if (this.revalidation !== revalidation) return;
+      // The loaded data and its edits stay; the columns are reported as
+      // holding errors from before the rule change.
+      if (this.state.status === "loaded") {
+        const failed = this.state.revalidationFailure?.keys ?? [];
+        this.setState({
+          ...this.state,
+          revalidationFailure: {
+            error: toValidatorError(error, "UNKNOWN_ERROR"),
+            keys: [...new Set([...failed, ...keys])],
+          },
+        });
+      }
+    }
+
+    this.revalidation = null;
+    if (revalidation.queued.size > 0 && this.state.status === "loaded") {
+      this.revalidateKeys(this.state.data.columns, revalidation.queued);
+    }
+  }
+
+  private setError(error: unknown, fallbackCode: string): void {
+    this.setState({
+      status: "error",
+      error: toValidatorError(error, fallbackCode),
+    });
+  }
+
   private setState(newState: DataStoreState): void {
     this.state = newState;
     this.notify();
@@ -271,15 +1211,68 @@ export class DataStore {
       subscriber();
     }
   }
+}
 
-  private applyValidationRules(columns: Column[]): Column[] {
-    return columns.map((column) => {
-      const rules = this.options.validationRules[column.key];
-      if (!rules) return column;
-      return {
-        ...column,
-        validation: [...(column.validation ?? []), ...rules],
-      };
-    });
+function toValidatorError(
+  error: unknown,
+  fallbackCode: string,
+): DataValidatorError {
+  if (error instanceof DataValidatorError) return error;
+  return new DataValidatorError(
+    fallbackCode,
+    error instanceof Error ? error.message : "An unknown error occurred",
+  );
+}
+
+/** `failure` less the columns in `keys`, which were re-validated since. */
+function withoutKeys(
+  failure: RevalidationFailure | undefined,
+  keys: Set<string>,
+): RevalidationFailure | undefined {
+  const remaining = failure?.keys.filter((key) => !keys.has(key)) ?? [];
+  return remaining.length > 0 ? { ...failure!, keys: remaining } : undefined;
+}
+
+function withPending(row: Row, pending: Set<string>): Row {
+  const newRow: Row = { ...row };
+  if (pending.size > 0) newRow.pending = [...pending];
+  else delete newRow.pending;
+  return newRow;
+}
+
+/** Whether `rules`, or the item rules nested in them, include type `name`. */
+function usesRuleType(rules: ValidationRule[], name: string): boolean {
+  return rules.some(
+    (rule) => rule.type === name || usesRuleType(rule.rules ?? [], name),
+  );
+}
+
+function hasSeverity(errors: ValidationError[], severity: Severity): boolean {
+  return errors.some((error) => error.severity === severity);
+}
+
+function buildExportRecord(row: Row, columns: Column[]): ExportRecord {
+  const record: ExportRecord = {};
+
+  for (const column of columns) {
+    // Keys the source record lacked stay absent rather than becoming null.
+    const value = row.cells[column.key];
+    if (value === undefined) continue;
+    if (!column.path) {
+      record[column.key] = value;
+      continue;
+    }
+
+    let target = record;
+    for (const segment of column.path.slice(0, -1)) {
+      const next = target[segment];
+      if (next === null || typeof next !== "object") {
+        target[segment] = {};
+      }
+      target = target[segment] as ExportRecord;
+    }
+    target[column.path[column.path.length - 1]!] = value;
   }
+
+  return record;
 }
@@ -0,0 +1,87 @@
+import type { CellValue, DatasetRule, ListItem, Row } from "./types";
+import { DatasetRuleTypes } from "./types";
+
+/**
+ * What a dataset rule needs to know about its column — the sum of its
+ * numbers or how often each value occurs — kept by row position, so an
+ * edit updates it instead of rescanning every row.
+ */
+export class DatasetIndex {
+  /**
+   * For `sum`: a binary tree of partial sums, leaves (the rows) from `size`
+   * on and the total at 1. Its shape depends only on the row count, so the
+   * total after any edits equals that of a fresh build, to the last bit.
+   */
+  private sums: Float64Array | null = null;
+  private size = 1;
+  /** For `contains`: occurrences of each value, list items counted singly. */
+  private counts: Map<ListItem, number> | null = null;
+
+  constructor(
+    readonly rule: DatasetRule,
+    rows: Row[],
+    private readonly read: (value: CellValue | undefined) => number | null,
+  ) {
+    const key = rule.column;
+    if (key === undefined) return;
+
+    if (rule.type === DatasetRuleTypes.SUM) {
+      while (this.size < rows.length) this.size *= 2;
+      const sums = new Float64Array(2 * this.size);
+      rows.forEach((row, position) => {
+        sums[this.size + position] = this.numberOf(row.cells[key]);
+      });
+      for (let node = this.size - 1; node >= 1; node--) {
+        sums[node] = sums[2 * node]! + sums[2 * node + 1]!;
+      }
+      this.sums = sums;
+    } else if (rule.type === DatasetRuleTypes.CONTAINS) {
+      this.counts = new Map();
+      for (const row of rows) this.count(row.cells[key], 1);
+    }
+  }
+
+  /** Re-files the row at `position`, whose cell went from `previous` to `value`. */
+  update(
+    position: number,
+    previous: CellValue | undefined,
+    value: CellValue | undefined,
+  ): void {
+    if (this.sums) {
+      const sums = this.sums;
+      let node = this.size + position;
+      sums[node] = this.numberOf(value);
+      for (node >>= 1; node >= 1; node >>= 1) {
+        sums[node] = sums[2 * node]! + sums[2 * node + 1]!;
+      }
+    }
+    if (this.counts) {
+      this.count(previous, -1);
+      this.count(value, 1);
+    }
+  }
+
+  /** For `sum`: the numbers of the column added up. */
+  get total(): number {
+    return this.sums?.[1] ?? 0;
+  }
+
+  /** For `contains`: those of `values` no cell holds. */
+  missing(values: ListItem[]): ListItem[] {
+    return values.filter((value) => !this.counts?.has(value));
+  }
+
+  private numberOf(value: CellValue | undefined): number {
+    const number = this.read(value);
+    return number !== null && Number.isFinite(number) ? number : 0;
+  }
+
+  private count(value: CellValue | undefined, delta: number): void {
+    if (value === undefined) return;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const count = (this.counts!.get(item) ?? 0) + delta;
+      if (count > 0) this.counts!.set(item, count);
+      else this.counts!.delete(item);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import type { Column, CustomRules, RowRule, ValidationRule } from "./types";
+import { conditionsOf, hasOwn, reportedColumns } from "./validate";
+
+/**
+ * Which cells each column's errors read, worked out once per set of rules:
+ * its own, those its rules' `when` conditions test, those its custom rules
+ * declare in `reads` (every column when they do not) and those of the row
+ * rules reporting on it. An edit then re-checks just the columns reading an
+ * edited cell.
+ */
+export class ColumnDependencies {
+  /** Column key → keys of the columns whose errors read its cells. */
+  private readers = new Map<string, Set<string>>();
+
+  constructor(
+    readonly columns: Column[],
+    readonly rowRules: RowRule[],
+    readonly customRules: CustomRules,
+  ) {
+    const allKeys = columns.map((column) => column.key);
+    for (const column of columns) {
+      const rules = column.validation ?? [];
+      for (const rule of rules) {
+        for (const condition of conditionsOf(rule)) {
+          this.addReader(condition.column, column.key);
+        }
+      }
+      for (const key of customReads(rules, customRules, allKeys)) {
+        this.addReader(key, column.key);
+      }
+    }
+    for (const rule of rowRules) {
+      for (const key of rule.columns) {
+        for (const reported of reportedColumns(rule)) {
+          this.addReader(key, reported);
+        }
+      }
+    }
+  }
+
+  /**
+   * Columns whose errors may change when the cells of `changed` do: those
+   * columns themselves and every column reading them.
+   */
+  affectedBy(changed: Iterable<string>): Set<string> {
+    const keys = new Set<string>();
+    for (const key of changed) {
+      keys.add(key);
+      for (const reader of this.readers.get(key) ?? []) keys.add(reader);
+    }
+    return keys;
+  }
+
+  private addReader(key: string, reader: string): void {
+    const readers = this.readers.get(key);
+    if (readers) readers.add(reader);
+    else this.readers.set(key, new Set([reader]));
+  }
+}
+
+/** Cells the custom rules among `rules`, `items` rules included, read. */
+function customReads(
+  rules: ValidationRule[],
+  customRules: CustomRules,
+  allKeys: string[],
+): string[] {
+  return rules.flatMap((rule) => [
+    ...(hasOwn(customRules, rule.type)
+      ? (customRules[rule.type]!.reads ?? allKeys)
+      : []),
+    ...customReads(rule.rules ?? [], customRules, allKeys),
+  ]);
+}
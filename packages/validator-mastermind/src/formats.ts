@@ -0,0 +1,119 @@
+/**
+ * Recognisers for the string shapes behind the semantic cell types. Type
+ * inference and `validateType` share them so a value that infers as a type
+ * also validates as it.
+ */
+
+import { parseDateTime, readNumber } from "./locale";
+
+export const EMAIL_PATTERN = "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$";
+export const UUID_PATTERN =
+  "^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$";
+
+const EMAIL = new RegExp(EMAIL_PATTERN);
+const UUID = new RegExp(UUID_PATTERN);
+const HTTP_URL = /^https?:\/\/\S+$/i;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d{1,9})?)?$/;
+const AMOUNT = /^[+-]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+
+export function isEmail(value: string): boolean {
+  return EMAIL.test(value);
+}
+
+export function isUuid(value: string): boolean {
+  return UUID.test(value);
+}
+
+/**
+ * Any absolute URL with a host. With `httpOnly`, only `http(s)://` URLs,
+ * which is what inference uses so `urn:` or `mailto:` text is left alone.
+ */
+export function isUrl(value: string, httpOnly = false): boolean {
+  if (httpOnly && !HTTP_URL.test(value)) return false;
+  try {
+    return new URL(value).host !== "";
+  } catch {
+    return false;
+  }
+}
+
+/** A 24-hour time of day: `HH:MM`, `HH:MM:SS` or `HH:MM:SS.fff`. */
+export function isTime(value: string): boolean {
+  return TIME.test(value);
+}
+
+/** An ISO 8601 date with a time of day and optional offset. */
+export function isDateTime(value: string): boolean {
+  return parseDateTime(value) !== null;
+}
+
+/**
+ * Reads an amount such as `$1,234.50`, `-12 EUR` or `€ 3`: currency symbols
+ * and three-letter codes are dropped, and the rest is read as a number in
+ * `locale`, or with `,` grouping thousands and `.` starting the fraction
+ * when there is none. Returns `null` for anything else.
+ */
+export function parseCurrencyAmount(
+  value: string,
+  locale?: string,
+): number | null {
+  const stripped = value.replace(/\p{Sc}|\b[A-Z]{3}\b/gu, "").trim();
+  if (locale) return readNumber(stripped, locale);
+
+  const compact = stripped.replace(/\s+/g, "");
+  if (!AMOUNT.test(compact)) return null;
+  return Number(compact.replace(/,/g, ""));
+}
+
+/** Minor-unit digits of an ISO 4217 currency; 2 when unknown. */
+export function currencyScale(currency: string | undefined): number {
+  if (!currency) return 2;
+  try {
+    return (
+      new Intl.NumberFormat("en", {
+        style: "currency",
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Significant digits before and after the decimal point, as written for
+ * strings and as printed for numbers. Returns `null` when `value` is not a
+ * plain decimal number.
+ */
+export function countDigits(
+  value: number | string,
+): { integer: number; fraction: number } | null {
+  if (typeof value === "number") {
+    if (!isFinite(value)) return null;
+    const [mantissa = "", exponent = "0"] = String(Math.abs(value)).split("e");
+    const [whole = "", fraction = ""] = mantissa.split(".");
+    const point = whole.length + Number(exponent);
+    return trimDigits(whole + fraction, point);
+  }
+
+  const match = /^[+-]?(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (match[1] === "" && !match[2])) return null;
+  const whole = match[1]!;
+  return trimDigits(whole + (match[2] ?? ""), whole.length);
+}
+
+/** Splits `digits` at `point`, ignoring leading and trailing zeros. */
+function trimDigits(
+  digits: string,
+  point: number,
+): { integer: number; fraction: number } {
+  const first = digits.search(/[1-9]/);
+  if (first === -1) return { integer: 0, fraction: 0 };
+  const last =
+    digits.length - digits.split("").reverse().join("").search(/[1-9]/);
+
+  return {
+    integer: Math.max(point - first, 0),
+    fraction: Math.max(last - point, 0),
+  };
+}
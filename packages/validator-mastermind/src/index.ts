@@ -1,24 +1,79 @@
 // Runtime values
 export { DataStore } from "./data-store";
-export { parse } from "./parse";
-export { validateCell, validateRow, validateAllRows } from "./validate";
-export { CellTypes, ValidationMessages, ValidationRuleTypes } from "./types";
+export { parse, detectFormat } from "./parse";
+export { fromJsonSchema, toJsonSchema } from "./json-schema";
+export { formatDate, localeDateFormat, readDate, readNumber } from "./locale";
+export { resolveMessages } from "./messages";
+export { parseStream } from "./stream";
+export {
+  validateCell,
+  validateRow,
+  validateAllRows,
+  datasetErrors,
+} from "./validate";
+export { exposeWorker } from "./worker";
+export {
+  CellTypes,
+  DataFormats,
+  DatasetRuleTypes,
+  RowRuleTypes,
+  Severities,
+  ValidationMessages,
+  ValidationRuleTypes,
+} from "./types";
 
 // Error classes
 export {
   DataValidatorError,
   ParseError,
+  RecordPathError,
   FileSizeError,
   ValidationFailedError,
 } from "./types";
 
 // Types consumers need
 export type {
+  AsyncCustomRule,
   CellType,
   CellValue,
+  ComparisonOperator,
+  CustomRule,
+  CustomRuleContext,
+  CustomRules,
+  ListItem,
   Column,
+  ColumnProfile,
+  ColumnSchema,
+  DataFormat,
+  DataSchema,
+  DatasetError,
+  DatasetRule,
+  DatasetRuleType,
+  JsonSchema,
+  JsonSchemaImport,
+  ParseErrorLocation,
+  ParseOptions,
+  RecordArrayCandidate,
+  RecordEnvelope,
+  RejectedRecord,
+  RuleSuggestion,
   Row,
+  RowRule,
+  RowRuleType,
+  RuleCondition,
+  Severity,
+  SourceSnippet,
+  UnsupportedKeyword,
+  ValueCount,
   DataSet,
   DataStoreState,
+  ExportRecord,
+  LoadProgress,
+  MessageCatalogue,
+  RevalidationFailure,
+  StreamLoadOptions,
+  StreamParseOptions,
   ValidationError,
+  ValidationErrorCode,
+  WorkerEndpoint,
 } from "./types";
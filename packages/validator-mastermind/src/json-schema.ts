@@ -0,0 +1,498 @@
+import {
+  type CellType,
+  type Column,
+  type ColumnSchema,
+  type JsonSchema,
+  type JsonSchemaImport,
+  type ListItem,
+  type UnsupportedKeyword,
+  type ValidationRule,
+  CellTypes,
+  Severities,
+  ValidationRuleTypes,
+} from "./types";
+import { formatRecordPath } from "./record-path";
+
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+/** Keywords that only describe a schema; they are accepted and ignored. */
+const ANNOTATIONS = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "title",
+  "description",
+  "default",
+  "examples",
+  "deprecated",
+  "readOnly",
+  "writeOnly",
+]);
+
+const TYPES_BY_NAME: Record<string, CellType> = {
+  string: CellTypes.STRING,
+  number: CellTypes.NUMBER,
+  integer: CellTypes.INTEGER,
+  boolean: CellTypes.BOOLEAN,
+  array: CellTypes.LIST,
+};
+
+/** JSON Schema `type` per cell type; `enum` columns are described by `enum`. */
+const NAMES_BY_TYPE: Record<Exclude<CellType, "enum">, string> = {
+  [CellTypes.STRING]: "string",
+  [CellTypes.NUMBER]: "number",
+  [CellTypes.INTEGER]: "integer",
+  [CellTypes.DECIMAL]: "number",
+  [CellTypes.CURRENCY]: "number",
+  [CellTypes.BOOLEAN]: "boolean",
+  [CellTypes.DATE]: "string",
+  [CellTypes.DATETIME]: "string",
+  [CellTypes.TIME]: "string",
+  [CellTypes.EMAIL]: "string",
+  [CellTypes.URL]: "string",
+  [CellTypes.UUID]: "string",
+  [CellTypes.LIST]: "array",
+};
+
+const TYPES_BY_FORMAT: Record<string, CellType> = {
+  date: CellTypes.DATE,
+  "date-time": CellTypes.DATETIME,
+  time: CellTypes.TIME,
+  email: CellTypes.EMAIL,
+  uri: CellTypes.URL,
+  uuid: CellTypes.UUID,
+};
+
+const FORMATS_BY_TYPE: Partial<Record<CellType, string>> = Object.fromEntries(
+  Object.entries(TYPES_BY_FORMAT).map(([format, type]) => [type, format]),
+);
+
+const RULES_BY_KEYWORD = {
+  minimum: ValidationRuleTypes.MIN,
+  maximum: ValidationRuleTypes.MAX,
+  minLength: ValidationRuleTypes.MIN_LENGTH,
+  maxLength: ValidationRuleTypes.MAX_LENGTH,
+  minItems: ValidationRuleTypes.MIN_ITEMS,
+  maxItems: ValidationRuleTypes.MAX_ITEMS,
+} as const;
+
+const KEYWORDS_BY_RULE = {
+  [ValidationRuleTypes.MIN]: "minimum",
+  [ValidationRuleTypes.MAX]: "maximum",
+  [ValidationRuleTypes.MIN_LENGTH]: "minLength",
+  [ValidationRuleTypes.MAX_LENGTH]: "maxLength",
+  [ValidationRuleTypes.MIN_ITEMS]: "minItems",
+  [ValidationRuleTypes.MAX_ITEMS]: "maxItems",
+} as const;
+
+/**
+ * Translates a JSON Schema (draft 2020-12 subset) for one record, or for an
+ * array of records, into a `DataSchema`. Nested object properties become
+ * dot-path columns. Keywords with no column equivalent are returned in
+ * `unsupported` instead of being dropped silently.
+ */
+export function fromJsonSchema(document: JsonSchema): JsonSchemaImport {
+  return new JsonSchemaImporter().import(document);
+}
+
+/**
+ * Describes `columns` and their rules as a JSON Schema for one record.
+ * Columns carrying a `key-absent` rule are left out and close the schema
+ * with `additionalProperties: false`. Custom rule messages are not kept,
+ * and rules with a `when` condition or a `warning` or `info` severity, which
+ * do not reject a value, are left out.
+ */
+export function toJsonSchema(columns: Column[]): JsonSchema {
+  const root: JsonSchema = {
+    $schema: JSON_SCHEMA_DIALECT,
+    type: "object",
+    properties: {},
+  };
+
+  for (const source of columns) {
+    const rules = (source.validation ?? []).filter(
+      (rule) =>
+        !rule.when && (rule.severity ?? Severities.ERROR) === Severities.ERROR,
+    );
+    const column = { ...source, validation: rules };
+    if (rules.some((rule) => rule.type === ValidationRuleTypes.KEY_ABSENT)) {
+      root.additionalProperties = false;
+      continue;
+    }
+
+    const segments = column.path ?? [column.key];
+    const required = rules.some(
+      (rule) =>
+        rule.type === ValidationRuleTypes.REQUIRED ||
+        rule.type === ValidationRuleTypes.KEY_PRESENT,
+    );
+
+    let parent = root;
+    for (const segment of segments.slice(0, -1)) {
+      parent.properties![segment] ??= { type: "object", properties: {} };
+      if (required) addRequired(parent, segment);
+      parent = parent.properties![segment] as JsonSchema;
+    }
+
+    const name = segments[segments.length - 1]!;
+    parent.properties![name] = columnToJsonSchema(column);
+    if (required) addRequired(parent, name);
+  }
+
+  return root;
+}
+
+class JsonSchemaImporter {
+  private columns: ColumnSchema[] = [];
+  private unsupported: UnsupportedKeyword[] = [];
+
+  import(document: JsonSchema): JsonSchemaImport {
+    let root = document;
+    let pointer = "";
+
+    if (document.type === "array") {
+      this.checkKeywords(document, pointer, ["type", "items"]);
+      if (isSchemaObject(document.items)) {
+        root = document.items;
+        pointer = "/items";
+      } else {
+        this.report("items", pointer, "expected an object schema for records");
+        root = {};
+      }
+    }
+
+    if (root.type !== undefined && root.type !== "object") {
+      this.report("type", pointer, "records must be objects");
+    }
+    if (
+      root.additionalProperties !== undefined &&
+      typeof root.additionalProperties !== "boolean"
+    ) {
+      this.report(
+        "additionalProperties",
+        pointer,
+        "only true or false is supported",
+      );
+    }
+    this.checkKeywords(root, pointer, [
+      "type",
+      "properties",
+      "required",
+      "additionalProperties",
+    ]);
+    this.object(root, pointer, [], true);
+
+    return {
+      schema: {
+        columns: this.columns,
+        additionalColumns: root.additionalProperties !== false,
+      },
+      unsupported: this.unsupported,
+    };
+  }
+
+  /**
+   * Adds a column per leaf property. A nested key is only required when
+   * every object on its way is required too.
+   */
+  private object(
+    schema: JsonSchema,
+    pointer: string,
+    prefix: string[],
+    required: boolean,
+  ): void {
+    const requiredKeys = new Set(schema.required ?? []);
+
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      const path = [...prefix, name];
+      const propertyPointer = `${pointer}/properties${formatRecordPath([name])}`;
+      const isRequired = required && requiredKeys.has(name);
+
+      if (!isSchemaObject(property)) {
+        this.report(
+          "properties",
+          pointer,
+          "boolean schemas are not supported",
+          propertyPointer,
+        );
+        continue;
+      }
+
+      if (property.type === "object" || property.properties !== undefined) {
+        this.checkKeywords(property, propertyPointer, [
+          "type",
+          "properties",
+          "required",
+        ]);
+        this.object(property, propertyPointer, path, isRequired);
+        continue;
+      }
+
+      const column = this.column(property, propertyPointer, isRequired);
+      this.columns.push({
+        key: path.join("."),
+        ...(path.length > 1 && { path }),
+        ...column,
+      });
+    }
+  }
+
+  private column(
+    schema: JsonSchema,
+    pointer: string,
+    required: boolean,
+  ): Omit<ColumnSchema, "key"> {
+    const { type, rules } = this.constraints(schema, pointer, true);
+    const column: Omit<ColumnSchema, "key"> = {};
+
+    if (typeof schema.title === "string") column.label = schema.title;
+    if (type) column.type = type;
+    if (!required) column.optional = true;
+
+    if (schema.items !== undefined && type !== CellTypes.LIST) {
+      this.report("items", pointer, "items need type array");
+    } else if (schema.items !== undefined) {
+      const itemsPointer = `${pointer}/items`;
+      if (isSchemaObject(schema.items)) {
+        const items = this.constraints(schema.items, itemsPointer, false);
+        if (items.type) column.itemType = items.type;
+        if (items.rules.length > 0) {
+          rules.push({ type: ValidationRuleTypes.ITEMS, rules: items.rules });
+        }
+      } else {
+        this.report("items", pointer, "boolean schemas are not supported");
+      }
+    }
+
+    if (rules.length > 0) column.validation = rules;
+    return column;
+  }
+
+  /** Reads the type and the rule keywords of a column or list-item schema. */
+  private constraints(
+    schema: JsonSchema,
+    pointer: string,
+    allowList: boolean,
+  ): { type?: CellType; rules: ValidationRule[] } {
+    let type = this.type(schema, pointer, allowList);
+    const rules: ValidationRule[] = [];
+
+    for (const [keyword, value] of Object.entries(schema)) {
+      if (ANNOTATIONS.has(keyword)) continue;
+
+      switch (keyword) {
+        case "type":
+          break;
+        case "minimum":
+        case "maximum":
+        case "minLength":
+        case "maxLength":
+        case "minItems":
+        case "maxItems":
+          if (typeof value !== "number") {
+            this.report(keyword, pointer, "expected a number");
+          } else if (
+            !allowList &&
+            (keyword === "minItems" || keyword === "maxItems")
+          ) {
+            this.report(keyword, pointer, "nested lists are not supported");
+          } else {
+            rules.push({ type: RULES_BY_KEYWORD[keyword], value });
+          }
+          break;
+        case "pattern":
+          if (typeof value === "string") {
+            rules.push({ type: ValidationRuleTypes.PATTERN, value });
+          } else {
+            this.report(keyword, pointer, "expected a string");
+          }
+          break;
+        case "enum":
+        case "const": {
+          const values = keyword === "enum" ? value : [value];
+          if (Array.isArray(values) && values.every(isListItem)) {
+            rules.push({ type: ValidationRuleTypes.ENUM, values });
+          } else {
+            this.report(keyword, pointer, "only scalar values are supported");
+          }
+          break;
+        }
+        case "format":
+          if (typeof value === "string" && TYPES_BY_FORMAT[value]) {
+            type = TYPES_BY_FORMAT[value];
+          } else {
+            this.report(keyword, pointer, `unknown format ${String(value)}`);
+          }
+          break;
+        case "uniqueItems":
+          if (value === true && allowList) {
+            rules.push({ type: ValidationRuleTypes.UNIQUE_ITEMS });
+          } else if (value !== false) {
+            this.report(keyword, pointer, "nested lists are not supported");
+          }
+          break;
+        case "items":
+          // Read by `column()`, which knows whether the column is a list.
+          if (!allowList) {
+            this.report(keyword, pointer, "nested lists are not supported");
+          }
+          break;
+        default:
+          this.report(keyword, pointer, "keyword is not supported");
+      }
+    }
+
+    return { type, rules };
+  }
+
+  private type(
+    schema: JsonSchema,
+    pointer: string,
+    allowList: boolean,
+  ): CellType | undefined {
+    if (schema.type === undefined) return undefined;
+
+    const names = (
+      Array.isArray(schema.type) ? schema.type : [schema.type]
+    ).filter((name) => name !== "null");
+    if (names.length === 0) return undefined;
+    if (names.length > 1) {
+      this.report("type", pointer, "only one non-null type is supported");
+      return undefined;
+    }
+
+    const [name] = names as [string];
+    const type = TYPES_BY_NAME[name];
+    if (!type || (type === CellTypes.LIST && !allowList)) {
+      this.report("type", pointer, `type ${name} is not supported here`);
+      return undefined;
+    }
+    return type;
+  }
+
+  /** Reports every keyword of `schema` outside `known` and the annotations. */
+  private checkKeywords(
+    schema: JsonSchema,
+    pointer: string,
+    known: string[],
+  ): void {
+    for (const keyword of Object.keys(schema)) {
+      if (!ANNOTATIONS.has(keyword) && !known.includes(keyword)) {
+        this.report(keyword, pointer, "keyword is not supported");
+      }
+    }
+  }
+
+  private report(
+    keyword: string,
+    pointer: string,
+    message: string,
+    path: string = `${pointer}${formatRecordPath([keyword])}`,
+  ): void {
+    this.unsupported.push({ keyword, path, message });
+  }
+}
+
+/** Cells may hold `null` unless a `required` rule says otherwise. */
+function columnToJsonSchema(column: Column): JsonSchema {
+  const itemType = column.itemType ?? CellTypes.STRING;
+  const schema: JsonSchema = {
+    title: column.label,
+    ...typeSchema(column.type, column),
+  };
+
+  if (column.type === CellTypes.LIST) {
+    schema.items = typeSchema(itemType, column);
+  }
+  for (const rule of column.validation ?? []) {
+    applyRule(schema, rule, column.type, itemType);
+  }
+
+  return schema;
+}
+
+function typeSchema(type: CellType, column: Column): JsonSchema {
+  if (type === CellTypes.ENUM) {
+    return column.values ? { enum: [...column.values, null] } : {};
+  }
+
+  const format = FORMATS_BY_TYPE[type];
+  return {
+    type: [NAMES_BY_TYPE[type], "null"],
+    ...(format && { format }),
+    ...(type === CellTypes.DECIMAL &&
+      column.scale !== undefined && { multipleOf: 10 ** -column.scale }),
+  };
+}
+
+/** Sets `keyword` on `schema`, moving a repeated one into `allOf`. */
+function constrain(schema: JsonSchema, keyword: string, value: unknown): void {
+  if (schema[keyword] === undefined) {
+    schema[keyword] = value;
+  } else {
+    (schema.allOf ??= []).push({ [keyword]: value });
+  }
+}
+
+function applyRule(
+  schema: JsonSchema,
+  rule: ValidationRule,
+  type: CellType,
+  itemType: CellType,
+): void {
+  switch (rule.type) {
+    case ValidationRuleTypes.REQUIRED:
+      // `required` also rejects null, empty strings and empty lists.
+      if (type === CellTypes.ENUM) {
+        schema.enum = schema.enum?.filter((value) => value !== null);
+      } else {
+        schema.type = NAMES_BY_TYPE[type];
+      }
+      if (type === CellTypes.STRING) schema.minLength ??= 1;
+      if (type === CellTypes.LIST) schema.minItems ??= 1;
+      break;
+    case ValidationRuleTypes.MIN:
+    case ValidationRuleTypes.MAX:
+    case ValidationRuleTypes.MIN_LENGTH:
+    case ValidationRuleTypes.MAX_LENGTH:
+    case ValidationRuleTypes.MIN_ITEMS:
+    case ValidationRuleTypes.MAX_ITEMS:
+      if (typeof rule.value === "number") {
+        // Custom rule names keep the case from narrowing `type`.
+        const keyword =
+          KEYWORDS_BY_RULE[rule.type as keyof typeof KEYWORDS_BY_RULE];
+        constrain(schema, keyword, rule.value);
+      }
+      break;
+    case ValidationRuleTypes.PATTERN:
+      if (typeof rule.value === "string") {
+        constrain(schema, "pattern", rule.value);
+      }
+      break;
+    case ValidationRuleTypes.UNIQUE_ITEMS:
+      schema.uniqueItems = true;
+      break;
+    case ValidationRuleTypes.ENUM:
+      if (rule.values) constrain(schema, "enum", rule.values);
+      break;
+    case ValidationRuleTypes.ITEMS:
+      for (const itemRule of rule.rules ?? []) {
+        applyRule(schema.items as JsonSchema, itemRule, itemType, itemType);
+      }
+      break;
+  }
+}
+
+function addRequired(schema: JsonSchema, name: string): void {
+  schema.required ??= [];
+  if (!schema.required.includes(name)) schema.required.push(name);
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isListItem(value: unknown): value is ListItem {
+  return value === null || typeof value !== "object";
+}
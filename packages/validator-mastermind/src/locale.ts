@@ -0,0 +1,234 @@
+import type { Column } from "./types";
+
+/**
+ * How a column spells numbers and dates. Without a `locale` or `dateFormat`,
+ * numbers are read as `Number()` does and dates as `new Date()` does.
+ */
+export type TextFormat = Pick<Column, "locale" | "dateFormat">;
+
+const ISO_DATE_FORMAT = "YYYY-MM-DD";
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?( ?(Z|[+-]\d{2}:?\d{2}))?$/;
+
+/**
+ * Reads numeric text as `locale` writes it, e.g. `1.234,56` for `de-DE`.
+ * Grouping is optional but must come in threes. Without a locale, any text
+ * `Number()` accepts is read.
+ */
+export function readNumber(text: string, locale?: string): number | null {
+  if (!locale) {
+    const num = Number(text);
+    return text.trim() === "" || isNaN(num) ? null : num;
+  }
+  const canonical = normalizeNumber(text, locale);
+  return canonical === null ? null : Number(canonical);
+}
+
+/**
+ * Rewrites numeric text in `locale`'s notation as plain `-1234.56`, or
+ * returns `null` when it is not a number in that notation.
+ */
+export function normalizeNumber(text: string, locale: string): string | null {
+  const { decimal, pattern } = numberNotation(locale);
+  const trimmed = text.trim();
+  if (!pattern.test(trimmed)) return null;
+
+  let canonical = "";
+  for (const char of trimmed) {
+    if (char === decimal) canonical += ".";
+    else if (char === "−") canonical += "-";
+    else if (/[\d+-]/.test(char)) canonical += char;
+    // Anything else the pattern let through is a group separator.
+  }
+  return canonical;
+}
+
+const notations = new Map<string, { decimal: string; pattern: RegExp }>();
+
+function numberNotation(locale: string): { decimal: string; pattern: RegExp } {
+  let notation = notations.get(locale);
+  if (notation) return notation;
+
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  const decimal = parts.find((part) => part.type === "decimal")?.value ?? ".";
+  const group = parts.find((part) => part.type === "group")?.value ?? ",";
+  // Space-like and apostrophe-like separators are rarely typed exactly.
+  const groupPattern = /\s/.test(group)
+    ? "\\s"
+    : group === "’"
+      ? "['’]"
+      : escapeRegExp(group);
+
+  notation = {
+    decimal,
+    pattern: new RegExp(
+      `^[+\\-−]?(\\d{1,3}(${groupPattern}\\d{3})+|\\d+)(${escapeRegExp(decimal)}\\d+)?$`,
+    ),
+  };
+  notations.set(locale, notation);
+  return notation;
+}
+
+/**
+ * Reads date text the way a column does: in its `dateFormat` only when it
+ * has one; otherwise as an ISO 8601 date or datetime, or in the short
+ * numeric form of its `locale` (`31.12.2024` for `de-DE`). Dates without a
+ * time of day come back as UTC midnight.
+ */
+export function readDate(text: string, format: TextFormat = {}): Date | null {
+  const { locale, dateFormat } = format;
+  if (dateFormat) return parseDateFormat(text, dateFormat);
+  if (locale) {
+    if (ISO_DATE.test(text)) return parseDateFormat(text, ISO_DATE_FORMAT);
+    return (
+      parseDateTime(text) ?? parseDateFormat(text, localeDateFormat(locale))
+    );
+  }
+
+  const date = parseDateTime(text) ?? new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** Reads an ISO 8601 date with a time of day and optional offset. */
+export function parseDateTime(text: string): Date | null {
+  if (!ISO_DATE_TIME.test(text)) return null;
+  // Normalize space before timezone offset: "2025-01-01T10:00:00 -01:00" → "2025-01-01T10:00:00-01:00"
+  const normalized = text.replace(/(\d) ([+-]\d{2}:?\d{2}|Z)$/, "$1$2");
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Writes `date` in a format such as `DD/MM/YYYY` or `YYYY-MM-DD HH:mm`,
+ * using its UTC fields, so `formatDate(readDate(text, { dateFormat }))`
+ * gives `text` back.
+ */
+export function formatDate(date: Date, format: string): string {
+  const fields: Record<DateToken, number> = {
+    YYYY: date.getUTCFullYear(),
+    MM: date.getUTCMonth() + 1,
+    M: date.getUTCMonth() + 1,
+    DD: date.getUTCDate(),
+    D: date.getUTCDate(),
+    HH: date.getUTCHours(),
+    mm: date.getUTCMinutes(),
+    ss: date.getUTCSeconds(),
+  };
+  return format.replace(DATE_TOKENS, (token) => {
+    const value = String(fields[token as DateToken]);
+    return value.padStart(token === "YYYY" ? 4 : token.length, "0");
+  });
+}
+
+const localeFormats = new Map<string, string>();
+
+/** The short numeric date format of `locale`, e.g. `M/D/YYYY` for `en-US`. */
+export function localeDateFormat(locale: string): string {
+  let format = localeFormats.get(locale);
+  if (format) return format;
+
+  format = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+    .formatToParts(0)
+    .map(({ type, value }) =>
+      type === "year"
+        ? "YYYY"
+        : type === "month"
+          ? "M"
+          : type === "day"
+            ? "D"
+            : value,
+    )
+    .join("");
+  localeFormats.set(locale, format);
+  return format;
+}
+
+/** Whether `format` includes a time of day, which makes it a datetime format. */
+export function hasTimeFields(format: string): boolean {
+  return compileDateFormat(format).fields.includes("hour");
+}
+
+type DateToken = "YYYY" | "MM" | "M" | "DD" | "D" | "HH" | "mm" | "ss";
+type DateField = "year" | "month" | "day" | "hour" | "minute" | "second";
+
+const DATE_TOKENS = /YYYY|MM|M|DD|D|HH|mm|ss/g;
+
+const TOKEN_FIELDS: Record<DateToken, { field: DateField; pattern: string }> = {
+  YYYY: { field: "year", pattern: "(\\d{4})" },
+  MM: { field: "month", pattern: "(\\d{2})" },
+  M: { field: "month", pattern: "(\\d{1,2})" },
+  DD: { field: "day", pattern: "(\\d{2})" },
+  D: { field: "day", pattern: "(\\d{1,2})" },
+  HH: { field: "hour", pattern: "(\\d{2})" },
+  mm: { field: "minute", pattern: "(\\d{2})" },
+  ss: { field: "second", pattern: "(\\d{2})" },
+};
+
+const compiledFormats = new Map<
+  string,
+  { pattern: RegExp; fields: DateField[] }
+>();
+
+function compileDateFormat(format: string): {
+  pattern: RegExp;
+  fields: DateField[];
+} {
+  let compiled = compiledFormats.get(format);
+  if (compiled) return compiled;
+
+  const fields: DateField[] = [];
+  let source = "";
+  let last = 0;
+  for (const match of format.matchAll(DATE_TOKENS)) {
+    const token = TOKEN_FIELDS[match[0] as DateToken];
+    source += escapeRegExp(format.slice(last, match.index)) + token.pattern;
+    fields.push(token.field);
+    last = match.index! + match[0].length;
+  }
+  source += escapeRegExp(format.slice(last));
+
+  compiled = { pattern: new RegExp(`^${source}$`), fields };
+  compiledFormats.set(format, compiled);
+  return compiled;
+}
+
+function parseDateFormat(text: string, format: string): Date | null {
+  const { pattern, fields } = compileDateFormat(format);
+  const match = pattern.exec(text.trim());
+  if (!match) return null;
+
+  const parts: Record<DateField, number> = {
+    year: 1970,
+    month: 1,
+    day: 1,
+    hour: 0,
+    minute: 0,
+    second: 0,
+  };
+  fields.forEach((field, i) => {
+    parts[field] = Number(match[i + 1]);
+  });
+  if (parts.hour > 23 || parts.minute > 59 || parts.second > 59) return null;
+
+  const date = new Date(0);
+  date.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+  date.setUTCHours(parts.hour, parts.minute, parts.second);
+  // Out-of-range days roll over into the next month, e.g. 31/02 to 03/03.
+  if (
+    date.getUTCMonth() !== parts.month - 1 ||
+    date.getUTCDate() !== parts.day
+  ) {
+    return null;
+  }
+  return date;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
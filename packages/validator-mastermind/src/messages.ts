@@ -0,0 +1,46 @@
+import type { MessageCatalogue } from "./types";
+
+/**
+ * Merges the catalogues that apply to `locale`, least specific first, so
+ * `de-CH` falls back to `de` and, for codes neither has, to English.
+ * Locale tags are compared case-insensitively.
+ */
+export function resolveMessages(
+  catalogues: Record<string, MessageCatalogue>,
+  locale: string | undefined,
+): MessageCatalogue {
+  if (!locale) return {};
+  const byTag = new Map(
+    Object.entries(catalogues).map(([tag, catalogue]) => [
+      tag.toLowerCase(),
+      catalogue,
+    ]),
+  );
+
+  const subtags = locale.toLowerCase().split(/[-_]/);
+  let resolved: MessageCatalogue = {};
+  for (let i = 1; i <= subtags.length; i++) {
+    const catalogue = byTag.get(subtags.slice(0, i).join("-"));
+    if (catalogue) resolved = { ...resolved, ...catalogue };
+  }
+  return resolved;
+}
+
+/**
+ * Replaces `{name}` placeholders with `values[name]`, writing lists as
+ * `"a", "b"`. Unknown placeholders are left as they are.
+ */
+export function fillTemplate(
+  template: string,
+  values: Record<string, unknown>,
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(values, name)) {
+      return placeholder;
+    }
+    const value = values[name];
+    return Array.isArray(value)
+      ? value.map((item) => JSON.stringify(item)).join(", ")
+      : String(value);
+  });
+}
@@ -0,0 +1,144 @@
+import {
+  type ParseErrorLocation,
+  type RejectedRecord,
+  ParseError,
+} from "./types";
+import {
+  type SourcePosition,
+  START_POSITION,
+  advancePosition,
+  findJsonSyntaxError,
+  snippetAt,
+} from "./source-location";
+
+export interface NdjsonOptions {
+  skipInvalidLines?: boolean;
+}
+
+export interface NdjsonResult {
+  records: Record<string, unknown>[];
+  rejected: RejectedRecord[];
+  /** Source location of each record, aligned with `records`. */
+  locations: ParseErrorLocation[];
+}
+
+export function parseNdjsonRecords(
+  input: string,
+  options: NdjsonOptions = {},
+): NdjsonResult {
+  const reader = new NdjsonReader(options);
+  const records = reader.push(input);
+  const { locations } = reader;
+  reader.end().forEach((record, i) => {
+    records.push(record);
+    locations.push(reader.locations[i]!);
+  });
+  return { records, rejected: reader.rejected, locations };
+}
+
+/**
+ * Reads newline-delimited JSON: one object per line, blank lines ignored.
+ * With `skipInvalidLines`, malformed lines are collected in `rejected`
+ * instead of thrown. Text can be pushed in arbitrary chunks.
+ */
+export class NdjsonReader {
+  readonly rejected: RejectedRecord[] = [];
+  /** Location of each record returned by the last `push()` or `end()`. */
+  locations: ParseErrorLocation[] = [];
+  private partial = "";
+  private line = 0;
+  private position: SourcePosition = START_POSITION;
+
+  constructor(private readonly options: NdjsonOptions = {}) {}
+
+  push(text: string): Record<string, unknown>[] {
+    const records: Record<string, unknown>[] = [];
+    this.locations = [];
+    const lines = (this.partial + text).split("\n");
+    this.partial = lines.pop()!;
+
+    for (const content of lines) this.readLine(content, records);
+    return records;
+  }
+
+  end(): Record<string, unknown>[] {
+    const records: Record<string, unknown>[] = [];
+    this.locations = [];
+    this.readLine(this.partial, records);
+    this.partial = "";
+    return records;
+  }
+
+  locate(index: number): ParseErrorLocation | undefined {
+    return this.locations[index];
+  }
+
+  private readLine(raw: string, records: Record<string, unknown>[]): void {
+    this.line++;
+    const start = this.position;
+    const end = advancePosition(start, raw);
+    this.position = { line: end.line + 1, column: 1, offset: end.offset + 1 };
+
+    const content = raw.replace(/\r$/, "");
+    if (content.trim().length === 0) return;
+
+    const result = parseLine(content);
+    if (!("reason" in result)) {
+      records.push(result.record);
+      this.locations.push({ ...start, snippet: snippetAt(content, 0) });
+      return;
+    }
+
+    if (!this.options.skipInvalidLines) {
+      const position = advancePosition(start, content, 0, result.index);
+      throw new ParseError(
+        `Invalid NDJSON at line ${position.line}, column ${position.column}: ${result.reason}`,
+        { ...position, snippet: snippetAt(content, result.index) },
+      );
+    }
+    this.rejected.push({ line: this.line, content, reason: result.reason });
+  }
+}
+
+/**
+ * Returns true when the first non-blank line holds a complete JSON object
+ * and more content follows it, which a single JSON document cannot do.
+ */
+export function looksLikeNdjson(input: string): boolean {
+  const lines = input.split("\n").filter((l) => l.trim().length > 0);
+  if (lines.length < 2) return false;
+
+  const first = lines[0]!.trim();
+  if (!first.startsWith("{")) return false;
+
+  try {
+    JSON.parse(first);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Returns the parsed record, or why and where the line was rejected. */
+function parseLine(
+  content: string,
+): { record: Record<string, unknown> } | { reason: string; index: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    const issue = findJsonSyntaxError(content);
+    return issue
+      ? {
+          reason: `line is not valid JSON (${issue.reason})`,
+          index: issue.index,
+        }
+      : { reason: "line is not valid JSON", index: 0 };
+  }
+
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { reason: "expected a JSON object", index: content.search(/\S/) };
+  }
+
+  return { record: parsed as Record<string, unknown> };
+}
@@ -2,93 +2,421 @@ import {
   type CellType,
   type CellValue,
   type Column,
+  type ColumnSchema,
   type DataSet,
+  type DataSetMetadata,
   type Row,
+  type DataFormat,
+  type ListItem,
+  type ParseErrorLocation,
   type ParseOptions,
+  type ValidationRule,
   CellTypes,
+  DataFormats,
+  ValidationRuleTypes,
   ParseError,
   FileSizeError,
 } from "./types";
+import { parseCsvRecords, readLocaleNumber } from "./csv";
+import { looksLikeNdjson, parseNdjsonRecords } from "./ndjson";
+import { parseRecordPath, selectRecords } from "./record-path";
+import { isDateTime, isEmail, isTime, isUrl, isUuid } from "./formats";
+import { hasTimeFields, readDate, type TextFormat } from "./locale";
+import {
+  findRecordStart,
+  jsonSyntaxError,
+  locate,
+  withRecordLocation,
+} from "./source-location";
+
+export const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+export const DEFAULT_MAX_NESTING_DEPTH = 1;
 
-const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const DEFAULT_MAX_NESTING_DEPTH = 1;
+/** Column types whose cells `DataSetBuilder` reads locale number text for. */
+const NUMERIC_TYPES = new Set<CellType>([
+  CellTypes.NUMBER,
+  CellTypes.INTEGER,
+  CellTypes.DECIMAL,
+]);
 
 export function parse(input: string, options: ParseOptions = {}): DataSet {
   const {
     maxFileSize = DEFAULT_MAX_FILE_SIZE,
     maxNestingDepth = DEFAULT_MAX_NESTING_DEPTH,
     fileName = "unknown",
+    format,
+    delimiter,
+    hasHeader,
+    skipInvalidLines = false,
+    recordPath,
   } = options;
 
-  const byteSize = new TextEncoder().encode(input).length;
+  const byteSize = utf8ByteLength(input);
   if (byteSize > maxFileSize) {
     throw new FileSizeError(byteSize, maxFileSize);
   }
 
-  if (input.trim().length === 0) {
+  // Spreadsheet exports frequently prepend a UTF-8 byte order mark.
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+
+  if (text.trim().length === 0) {
     throw new ParseError("File is empty");
   }
 
-  let parsed: unknown;
+  let records: Record<string, unknown>[];
+  let source: DataSetSource = {};
+  let locateRecord: (index: number) => ParseErrorLocation | undefined = () =>
+    undefined;
+
+  switch (format ?? sniffFormat(text)) {
+    case DataFormats.CSV:
+      records = parseCsvRecords(text, {
+        delimiter,
+        hasHeader,
+        locale: options.locale,
+      });
+      break;
+    case DataFormats.NDJSON: {
+      const ndjson = parseNdjsonRecords(text, { skipInvalidLines });
+      ({ records, rejected: source.rejectedRecords } = ndjson);
+      locateRecord = (index) => ndjson.locations[index];
+      break;
+    }
+    case DataFormats.JSON:
+    default:
+      ({ records, ...source } = parseJsonRecords(text, recordPath));
+      locateRecord = (index) =>
+        locateJsonRecord(text, source.recordPath, index);
+      break;
+  }
+
+  const builder = new DataSetBuilder({
+    maxNestingDepth,
+    flagMissingKeys: options.flagMissingKeys,
+    flagUnexpectedKeys: options.flagUnexpectedKeys,
+    schema: options.schema,
+    locale: options.locale,
+  });
   try {
-    parsed = JSON.parse(input);
-  } catch {
-    throw new ParseError("Invalid JSON: file could not be parsed");
+    for (const record of records) builder.add(record);
+  } catch (error) {
+    throw withRecordLocation(error, locateRecord);
   }
+  return builder.build(fileName, source);
+}
+
+/** Metadata describing where in the input the records came from. */
+export type DataSetSource = Pick<
+  DataSetMetadata,
+  "rejectedRecords" | "recordPath" | "envelope"
+>;
 
-  if (!Array.isArray(parsed)) {
-    throw new ParseError(
-      "Unsupported structure: expected a JSON array of objects",
+export type DataSetBuilderOptions = Pick<
+  ParseOptions,
+  | "maxNestingDepth"
+  | "flagMissingKeys"
+  | "flagUnexpectedKeys"
+  | "schema"
+  | "locale"
+>;
+
+/**
+ * Accumulates records into rows one at a time, validating structure and
+ * tallying value types as it goes, so a `DataSet` can be assembled from a
+ * stream without holding the raw records or walking them a second time.
+ * Columns are the union of all record keys, in the order they first appear,
+ * after any columns declared by the schema.
+ */
+export class DataSetBuilder {
+  /** Index of the record each key first appeared in; iterates in column order. */
+  private firstSeen = new Map<string, number>();
+  private presentCounts = new Map<string, number>();
+  private paths = new Map<string, string[]>();
+  private typeCounts = new Map<string, Record<string, number>>();
+  private itemTypeCounts = new Map<string, Record<string, number>>();
+  private rows: Row[] = [];
+  private specs: Map<string, ColumnSchema>;
+  private textFormats = new Map<string, TextFormat>();
+
+  constructor(private readonly options: DataSetBuilderOptions = {}) {
+    this.specs = new Map(
+      (options.schema?.columns ?? []).map((spec) => [spec.key, spec]),
     );
   }
 
-  if (parsed.length === 0) {
-    throw new ParseError("Empty dataset: the JSON array contains no records");
+  get rowCount(): number {
+    return this.rows.length;
   }
 
-  const records = parsed as unknown[];
+  add(record: Record<string, unknown>): void {
+    const index = this.rows.length;
+    const { maxNestingDepth = DEFAULT_MAX_NESTING_DEPTH } = this.options;
+    validateNesting(record, index, maxNestingDepth, 0);
+    const flat = flattenRecord(record, this.paths);
 
-  for (let i = 0; i < records.length; i++) {
-    const record = records[i];
-    if (record === null || typeof record !== "object" || Array.isArray(record)) {
-      throw new ParseError(
-        `Invalid record at index ${i}: expected a flat object`,
-      );
+    for (const [key, text] of Object.entries(flat)) {
+      const value = this.localeNumber(key, text);
+      flat[key] = value;
+      if (!this.firstSeen.has(key)) this.firstSeen.set(key, index);
+      this.presentCounts.set(key, (this.presentCounts.get(key) ?? 0) + 1);
+      const format = this.textFormat(key);
+      countValueType(this.typeCounts, key, value, format);
+      if (Array.isArray(value)) {
+        for (const item of value) {
+          countValueType(this.itemTypeCounts, key, item, format);
+        }
+      }
     }
-    validateNesting(record as Record<string, unknown>, i, maxNestingDepth, 0);
+
+    this.rows.push({
+      id: generateRowId(index),
+      cells: buildCells(flat),
+      errors: {},
+    });
   }
 
-  const firstRecord = records[0] as Record<string, unknown>;
-  const columnKeys = Object.keys(firstRecord);
+  build(fileName: string, source: DataSetSource = {}): DataSet {
+    const { rejectedRecords = [], recordPath, envelope } = source;
+
+    if (this.rows.length === 0) {
+      throw new ParseError("Empty dataset: the file contains no records");
+    }
+
+    const { flagMissingKeys, flagUnexpectedKeys, schema } = this.options;
+    const columns = (schema?.columns ?? []).map((spec) =>
+      this.declaredColumn(spec),
+    );
+    const declared = new Set(columns.map((column) => column.key));
+    const rejectUndeclared = schema !== undefined && !schema.additionalColumns;
+
+    for (const [key, firstSeen] of this.firstSeen) {
+      if (declared.has(key)) continue;
 
-  if (columnKeys.length === 0) {
-    throw new ParseError("No columns found: the first record has no keys");
+      const keyRule = rejectUndeclared
+        ? ValidationRuleTypes.KEY_ABSENT
+        : firstSeen === 0
+          ? flagMissingKeys && ValidationRuleTypes.KEY_PRESENT
+          : flagUnexpectedKeys && ValidationRuleTypes.KEY_ABSENT;
+
+      columns.push({
+        ...this.inferredColumn(key),
+        ...(keyRule && { validation: withSchemaIds(key, [{ type: keyRule }]) }),
+      });
+    }
+
+    if (columns.length === 0) {
+      throw new ParseError("No columns found: the records have no keys");
+    }
+
+    return {
+      columns,
+      rows: this.rows,
+      metadata: {
+        fileName,
+        rowCount: this.rows.length,
+        columnCount: columns.length,
+        importedAt: new Date().toISOString(),
+        ...(rejectedRecords.length > 0 && { rejectedRecords }),
+        ...(envelope && { recordPath, envelope }),
+      },
+    };
   }
 
-  const columns: Column[] = columnKeys.map((key) => ({
-    key,
-    label: formatLabel(key),
-    type: inferColumnType(records as Record<string, unknown>[], key),
-  }));
+  private inferredColumn(
+    key: string,
+    path: string[] | undefined = this.paths.get(key),
+  ): Column {
+    const type = inferColumnType(this.typeCounts.get(key) ?? {});
+    const { locale, dateFormat } = this.textFormat(key);
 
-  const rows: Row[] = (records as Record<string, unknown>[]).map(
-    (record, index) => ({
-      id: generateRowId(index),
-      cells: buildCells(record, columns),
-      errors: {},
-    }),
-  );
+    return {
+      key,
+      label: path ? path.map(formatLabel).join(" › ") : formatLabel(key),
+      type,
+      ...(path && { path }),
+      ...(type === CellTypes.LIST && {
+        itemType: inferColumnType(this.itemTypeCounts.get(key) ?? {}),
+      }),
+      presentCount: this.presentCounts.get(key) ?? 0,
+      ...(locale && { locale }),
+      ...(dateFormat && { dateFormat }),
+    };
+  }
+
+  /**
+   * With a `locale`, text that is a number in it, such as `1.234,56` for
+   * `de-DE`, is read as one the way CSV fields are, unless the schema gives
+   * the column a type that is not numeric.
+   */
+  private localeNumber(key: string, value: unknown): unknown {
+    const { locale } = this.options;
+    if (!locale || typeof value !== "string") return value;
+    const type = this.specs.get(key)?.type;
+    if (type !== undefined && !NUMERIC_TYPES.has(type)) return value;
+    return readLocaleNumber(value, locale) ?? value;
+  }
+
+  /** The locale and date format the values of `key` are read in. */
+  private textFormat(key: string): TextFormat {
+    let format = this.textFormats.get(key);
+    if (!format) {
+      format = {
+        locale: this.options.locale,
+        dateFormat: this.specs.get(key)?.dateFormat,
+      };
+      this.textFormats.set(key, format);
+    }
+    return format;
+  }
+
+  /**
+   * A schema column overrides what was inferred. A missing key is reported
+   * by `required` when the column has it, so `key-present` is not doubled up.
+   */
+  private declaredColumn(spec: ColumnSchema): Column {
+    const inferred = this.inferredColumn(
+      spec.key,
+      this.paths.get(spec.key) ?? spec.path,
+    );
+    const type = spec.type ?? inferred.type;
+    const keyRule: ValidationRule[] = spec.required
+      ? [{ type: ValidationRuleTypes.REQUIRED }]
+      : spec.optional
+        ? []
+        : [{ type: ValidationRuleTypes.KEY_PRESENT }];
+    const validation = withSchemaIds(spec.key, [
+      ...keyRule,
+      ...(spec.validation ?? []),
+    ]);
+    const itemType =
+      type === CellTypes.LIST
+        ? (spec.itemType ?? inferred.itemType ?? CellTypes.STRING)
+        : undefined;
+
+    const { precision, scale, values, currency } = spec;
+
+    return {
+      key: spec.key,
+      label: spec.label ?? inferred.label,
+      type,
+      ...(inferred.path && { path: inferred.path }),
+      ...(itemType && { itemType }),
+      presentCount: inferred.presentCount,
+      ...(validation.length > 0 && { validation }),
+      ...(precision !== undefined && { precision }),
+      ...(scale !== undefined && { scale }),
+      ...(values && { values }),
+      ...(currency && { currency }),
+      ...(inferred.locale && { locale: inferred.locale }),
+      ...(inferred.dateFormat && { dateFormat: inferred.dateFormat }),
+    };
+  }
+}
+
+/** Counts UTF-8 bytes without allocating an encoded copy of the input. */
+export function utf8ByteLength(input: string): number {
+  let bytes = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair: one 4-byte character spread over two UTF-16 units.
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+
+  return bytes;
+}
 
-  return {
-    columns,
-    rows,
-    metadata: {
-      fileName,
-      rowCount: rows.length,
-      columnCount: columns.length,
-      importedAt: new Date().toISOString(),
-    },
-  };
+const FORMAT_BY_EXTENSION: Record<string, DataFormat> = {
+  json: DataFormats.JSON,
+  csv: DataFormats.CSV,
+  tsv: DataFormats.CSV,
+  ndjson: DataFormats.NDJSON,
+  jsonl: DataFormats.NDJSON,
+};
+
+const FORMAT_BY_MIME_TYPE: Record<string, DataFormat> = {
+  "application/json": DataFormats.JSON,
+  "text/json": DataFormats.JSON,
+  "text/csv": DataFormats.CSV,
+  "application/csv": DataFormats.CSV,
+  "text/tab-separated-values": DataFormats.CSV,
+  "application/x-ndjson": DataFormats.NDJSON,
+  "application/jsonl": DataFormats.NDJSON,
+  "application/x-jsonlines": DataFormats.NDJSON,
+};
+
+/**
+ * Picks an input format from a file name and, failing that, a MIME type.
+ * Returns `undefined` when neither is recognised so `parse()` can sniff the
+ * content instead.
+ */
+export function detectFormat(
+  fileName: string,
+  mimeType?: string,
+): DataFormat | undefined {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  const byExtension = FORMAT_BY_EXTENSION[extension];
+  if (byExtension) return byExtension;
+
+  const baseMimeType = mimeType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  return FORMAT_BY_MIME_TYPE[baseMimeType];
+}
+
+function sniffFormat(text: string): DataFormat {
+  return looksLikeNdjson(text) ? DataFormats.NDJSON : DataFormats.JSON;
+}
+
+/** Parses a JSON document and picks its record array (see `selectRecords`). */
+export function parseJsonRecords(
+  text: string,
+  recordPath?: string,
+): Omit<DataSetSource, "rejectedRecords"> & {
+  records: Record<string, unknown>[];
+} {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw jsonSyntaxError(text, {
+      recordPath: parseRecordPath(recordPath ?? ""),
+    });
+  }
+
+  const { records: parsed, ...source } = selectRecords(document, recordPath);
+
+  if (parsed.length === 0) {
+    throw new ParseError("Empty dataset: the JSON array contains no records");
+  }
+
+  for (let i = 0; i < parsed.length; i++) {
+    const record: unknown = parsed[i];
+    if (record === null || typeof record !== "object" || Array.isArray(record)) {
+      throw new ParseError(`Invalid record at index ${i}: expected a flat object`, {
+        ...locateJsonRecord(text, source.recordPath, i),
+        recordIndex: i,
+      });
+    }
+  }
+
+  return { records: parsed as Record<string, unknown>[], ...source };
+}
+
+export function locateJsonRecord(
+  text: string,
+  recordPath: string | undefined,
+  recordIndex: number,
+): ParseErrorLocation | undefined {
+  const start = findRecordStart(
+    text,
+    parseRecordPath(recordPath ?? ""),
+    recordIndex,
+  );
+  return start === undefined ? undefined : locate(text, start);
 }
 
 function validateNesting(
@@ -102,6 +430,7 @@ function validateNesting(
       if (currentDepth >= maxDepth) {
         throw new ParseError(
           `Unsupported structure: deeply nested object at record ${recordIndex}, key "${key}". Maximum nesting depth is ${maxDepth}`,
+          { recordIndex },
         );
       }
       validateNesting(
@@ -111,32 +440,62 @@ function validateNesting(
         currentDepth + 1,
       );
     }
-    if (Array.isArray(value)) {
+    if (Array.isArray(value) && !value.every(isListItem)) {
       throw new ParseError(
-        `Unsupported structure: array value at record ${recordIndex}, key "${key}". Only flat objects are supported`,
+        `Unsupported structure: array of objects or arrays at record ${recordIndex}, key "${key}". Lists may only contain strings, numbers, booleans or null`,
+        { recordIndex },
       );
     }
   }
 }
 
-function inferColumnType(
-  records: Record<string, unknown>[],
-  key: string,
-): CellType {
-  const typeCounts: Record<string, number> = {};
+function isListItem(value: unknown): value is ListItem {
+  return value === null || typeof value !== "object";
+}
 
-  for (const record of records) {
-    const value = record[key];
-    if (value === null || value === undefined) continue;
+function countValueType(
+  typeCounts: Map<string, Record<string, number>>,
+  key: string,
+  value: unknown,
+  format: TextFormat,
+): void {
+  if (value === null || value === undefined) return;
 
-    const detectedType = detectValueType(value);
-    typeCounts[detectedType] = (typeCounts[detectedType] ?? 0) + 1;
+  let counts = typeCounts.get(key);
+  if (!counts) {
+    counts = {};
+    typeCounts.set(key, counts);
   }
 
+  const detectedType = detectValueType(value, format);
+  counts[detectedType] = (counts[detectedType] ?? 0) + 1;
+}
+
+/**
+ * Where a recognised string shape falls back to when the column also holds
+ * values of the broader type, e.g. emails mixed with free text.
+ */
+const WIDER_TYPES: Partial<Record<CellType, CellType>> = {
+  [CellTypes.EMAIL]: CellTypes.STRING,
+  [CellTypes.URL]: CellTypes.STRING,
+  [CellTypes.UUID]: CellTypes.STRING,
+  [CellTypes.TIME]: CellTypes.STRING,
+  [CellTypes.DATETIME]: CellTypes.DATE,
+};
+
+function inferColumnType(typeCounts: Record<string, number>): CellType {
   let bestType: CellType = CellTypes.STRING;
   let bestCount = 0;
+  const counts = { ...typeCounts };
 
-  for (const [type, count] of Object.entries(typeCounts)) {
+  for (const [type, wider] of Object.entries(WIDER_TYPES)) {
+    if (counts[type] && counts[wider]) {
+      counts[wider] += counts[type];
+      delete counts[type];
+    }
+  }
+
+  for (const [type, count] of Object.entries(counts)) {
     if (count > bestCount) {
       bestType = type as CellType;
       bestCount = count;
@@ -146,17 +505,40 @@ function inferColumnType(
   return bestType;
 }
 
-function detectValueType(value: unknown): CellType {
+/**
+ * The type a single value suggests. Date text is recognised in `format`'s
+ * date format alone when it has one, otherwise as ISO 8601 or in its locale.
+ */
+export function detectValueType(
+  value: unknown,
+  format: TextFormat = {},
+): CellType {
+  if (Array.isArray(value)) return CellTypes.LIST;
   if (typeof value === "boolean") return CellTypes.BOOLEAN;
   if (typeof value === "number") return CellTypes.NUMBER;
   if (typeof value === "string") {
-    if (isDateString(value)) return CellTypes.DATE;
+    if (format.dateFormat) {
+      if (readDate(value, format)) {
+        return hasTimeFields(format.dateFormat)
+          ? CellTypes.DATETIME
+          : CellTypes.DATE;
+      }
+    } else {
+      if (isDateTime(value)) return CellTypes.DATETIME;
+      if (isDateString(value, format.locale)) return CellTypes.DATE;
+    }
+    if (isTime(value)) return CellTypes.TIME;
+    if (isUuid(value)) return CellTypes.UUID;
+    if (isEmail(value)) return CellTypes.EMAIL;
+    if (isUrl(value, true)) return CellTypes.URL;
     return CellTypes.STRING;
   }
   return CellTypes.STRING;
 }
 
-function isDateString(value: string): boolean {
+function isDateString(value: string, locale: string | undefined): boolean {
+  if (locale) return readDate(value, { locale }) !== null;
+
   const datePatterns = [
     /^\d{4}-\d{2}-\d{2}$/,
     /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/,
@@ -170,6 +552,33 @@ function isDateString(value: string): boolean {
   return !isNaN(date.getTime());
 }
 
+/**
+ * Lifts nested object values into dot-path keys (`address.city`). The path
+ * segments of every nested key are recorded in `paths` so the original shape
+ * can be rebuilt on export even when a segment itself contains a dot.
+ */
+function flattenRecord(
+  record: Record<string, unknown>,
+  paths: Map<string, string[]>,
+  prefix: string[] = [],
+  flat: Record<string, unknown> = {},
+): Record<string, unknown> {
+  for (const [key, value] of Object.entries(record)) {
+    const path = [...prefix, key];
+
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      flattenRecord(value as Record<string, unknown>, paths, path, flat);
+      continue;
+    }
+
+    const flatKey = path.join(".");
+    if (path.length > 1 && !paths.has(flatKey)) paths.set(flatKey, path);
+    flat[flatKey] = value;
+  }
+
+  return flat;
+}
+
 function formatLabel(key: string): string {
   return key
     .replace(/([a-z])([A-Z])/g, "$1 $2")
@@ -179,13 +588,11 @@ function formatLabel(key: string): string {
 
 function buildCells(
   record: Record<string, unknown>,
-  columns: Column[],
 ): Record<string, CellValue> {
   const cells: Record<string, CellValue> = {};
 
-  for (const column of columns) {
-    const raw = record[column.key];
-    cells[column.key] = coerceValue(raw);
+  for (const [key, value] of Object.entries(record)) {
+    cells[key] = coerceValue(value);
   }
 
   return cells;
@@ -196,6 +603,7 @@ function coerceValue(value: unknown): CellValue {
   if (typeof value === "string") return value;
   if (typeof value === "number") return value;
   if (typeof value === "boolean") return value;
+  if (Array.isArray(value)) return [...(value as ListItem[])];
   if (typeof value === "object") return JSON.stringify(value);
   return String(value);
 }
@@ -206,3 +614,14 @@ function generateRowId(index: number): string {
   rowIdCounter++;
   return `row-${index}-${rowIdCounter}-${Date.now().toString(36)}`;
 }
+
+/**
+ * Gives the rules a loaded column brings with it — from a schema, or the
+ * key checks — the ids `schema:<key>:<n>` where they have none, so they can
+ * be told apart and removed like the store's own.
+ */
+function withSchemaIds(key: string, rules: ValidationRule[]): ValidationRule[] {
+  return rules.map((rule, n) =>
+    rule.id === undefined ? { ...rule, id: `schema:${key}:${n}` } : rule,
+  );
+}
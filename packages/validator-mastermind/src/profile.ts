@@ -0,0 +1,168 @@
+import type { CellType, CellValue, ColumnProfile, ValueCount } from "./types";
+import { CellTypes } from "./types";
+import { detectValueType } from "./parse";
+import { readDate, type TextFormat } from "./locale";
+
+/** How many of the most frequent values a profile lists. */
+const TOP_VALUES_LIMIT = 10;
+
+/**
+ * Keeps the statistics of one column as running tallies, so an edit costs a
+ * `remove` of the old value and an `add` of the new one instead of a rescan.
+ */
+export class ColumnProfiler {
+  private rowCount = 0;
+  private missingCount = 0;
+  private nullCount = 0;
+  private emptyCount = 0;
+  /** Keyed by `JSON.stringify(value)` so `1` and `"1"` stay apart. */
+  private values = new Map<string, ValueCount>();
+  private typeCounts: Partial<Record<CellType, number>> = {};
+  private numbers = new RangeTally();
+  private dates = new RangeTally();
+  private dateTexts = new Map<number, string>();
+  private lengths = new RangeTally();
+  private snapshot: ColumnProfile | null = null;
+
+  constructor(
+    private readonly columnKey: string,
+    /** How the column's date text is read, so dates tally as validation sees them. */
+    private readonly format: TextFormat = {},
+  ) {}
+
+  add(value: CellValue | undefined): void {
+    this.tally(value, 1);
+  }
+
+  remove(value: CellValue | undefined): void {
+    this.tally(value, -1);
+  }
+
+  /** Every distinct non-null value with its count, in first-seen order. */
+  distinctValues(): IterableIterator<ValueCount> {
+    return this.values.values();
+  }
+
+  /** The current profile; the same object is returned until the next change. */
+  profile(): ColumnProfile {
+    this.snapshot ??= this.buildProfile();
+    return this.snapshot;
+  }
+
+  private tally(value: CellValue | undefined, delta: 1 | -1): void {
+    this.snapshot = null;
+    this.rowCount += delta;
+
+    if (value === undefined) {
+      this.missingCount += delta;
+      return;
+    }
+    if (value === null) {
+      this.nullCount += delta;
+      return;
+    }
+    if (value === "" || (Array.isArray(value) && value.length === 0)) {
+      this.emptyCount += delta;
+    }
+
+    const key = JSON.stringify(value);
+    const entry = this.values.get(key) ?? { value, count: 0 };
+    entry.count += delta;
+    if (entry.count > 0) this.values.set(key, entry);
+    else this.values.delete(key);
+
+    const type = detectValueType(value, this.format);
+    this.typeCounts[type] = (this.typeCounts[type] ?? 0) + delta;
+    if (this.typeCounts[type] === 0) delete this.typeCounts[type];
+
+    if (typeof value === "number") this.numbers.tally(value, delta);
+    if (typeof value === "string") {
+      this.lengths.tally(value.length, delta);
+      if (type === CellTypes.DATE || type === CellTypes.DATETIME) {
+        const time = readDate(value, this.format)!.getTime();
+        this.dates.tally(time, delta);
+        if (delta > 0) this.dateTexts.set(time, value);
+        else if (!this.dates.counts.has(time)) this.dateTexts.delete(time);
+      }
+    }
+  }
+
+  private buildProfile(): ColumnProfile {
+    const topValues = [...this.values.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_VALUES_LIMIT)
+      .map(({ value, count }) => ({ value, count }));
+
+    const profile: ColumnProfile = {
+      columnKey: this.columnKey,
+      rowCount: this.rowCount,
+      missingCount: this.missingCount,
+      nullCount: this.nullCount,
+      emptyCount: this.emptyCount,
+      distinctCount: this.values.size,
+      topValues,
+      typeCounts: { ...this.typeCounts },
+    };
+
+    if (this.numbers.total > 0) {
+      profile.numbers = {
+        min: this.numbers.min,
+        max: this.numbers.max,
+        mean: this.numbers.sum / this.numbers.total,
+      };
+    }
+    if (this.dates.total > 0) {
+      profile.dates = {
+        min: this.dateTexts.get(this.dates.min)!,
+        max: this.dateTexts.get(this.dates.max)!,
+      };
+    }
+    if (this.lengths.total > 0) {
+      profile.strings = {
+        minLength: this.lengths.min,
+        maxLength: this.lengths.max,
+        meanLength: this.lengths.sum / this.lengths.total,
+        lengths: [...this.lengths.counts]
+          .sort(([a], [b]) => a - b)
+          .map(([length, count]) => ({ length, count })),
+      };
+    }
+
+    return profile;
+  }
+}
+
+/**
+ * Counts of numeric values with their sum and range. The range is only
+ * rescanned when the last occurrence of the current minimum or maximum goes.
+ */
+class RangeTally {
+  counts = new Map<number, number>();
+  total = 0;
+  sum = 0;
+  min = Infinity;
+  max = -Infinity;
+
+  tally(value: number, delta: 1 | -1): void {
+    const count = (this.counts.get(value) ?? 0) + delta;
+    this.total += delta;
+    this.sum += value * delta;
+
+    if (count > 0) {
+      this.counts.set(value, count);
+      if (value < this.min) this.min = value;
+      if (value > this.max) this.max = value;
+      return;
+    }
+
+    this.counts.delete(value);
+    if (value === this.min || value === this.max) {
+      this.min = Infinity;
+      this.max = -Infinity;
+      for (const key of this.counts.keys()) {
+        if (key < this.min) this.min = key;
+        if (key > this.max) this.max = key;
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  type RecordArrayCandidate,
+  type RecordEnvelope,
+  ParseError,
+  RecordPathError,
+} from "./types";
+
+/** How many object levels auto-detection descends looking for record arrays. */
+const MAX_DETECTION_DEPTH = 4;
+
+export interface RecordSelection {
+  records: unknown[];
+  /** Normalized JSON Pointer, set only when the records were wrapped. */
+  recordPath?: string;
+  envelope?: RecordEnvelope;
+}
+
+/**
+ * Splits a `recordPath` into segments. Paths starting with `/` are JSON
+ * Pointers (RFC 6901); anything else is a dot-path. The empty string is the
+ * document root in both notations.
+ */
+export function parseRecordPath(path: string): string[] {
+  if (path === "") return [];
+  if (path.startsWith("/")) {
+    return path
+      .slice(1)
+      .split("/")
+      .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+  }
+  return path.split(".");
+}
+
+export function formatRecordPath(segments: string[]): string {
+  return segments
+    .map((segment) => `/${segment.replace(/~/g, "~0").replace(/\//g, "~1")}`)
+    .join("");
+}
+
+/**
+ * Picks the record array out of a parsed JSON document. A top-level array is
+ * used as is; a wrapping object needs `recordPath` unless it holds exactly
+ * one array of objects. The document is consumed: its record array is
+ * replaced by `[]` and the remainder returned as the envelope.
+ */
+export function selectRecords(
+  document: unknown,
+  recordPath?: string,
+): RecordSelection {
+  if (recordPath !== undefined) {
+    return selectAt(document, parseRecordPath(recordPath), recordPath);
+  }
+
+  if (Array.isArray(document)) return { records: document };
+
+  if (!isPlainObject(document)) {
+    throw new ParseError(
+      "Unsupported structure: expected a JSON array of objects",
+    );
+  }
+
+  const candidates = findRecordArrays(document);
+  if (candidates.length === 0) {
+    throw new ParseError(
+      "Unsupported structure: expected a JSON array of objects or an object containing one",
+    );
+  }
+  if (candidates.length > 1) {
+    throw new RecordPathError(
+      `Ambiguous structure: found ${candidates.length} arrays of objects (${candidates.map((c) => c.path).join(", ")}). Set recordPath to choose one`,
+      candidates,
+    );
+  }
+
+  const [candidate] = candidates as [RecordArrayCandidate];
+  return selectAt(document, parseRecordPath(candidate.path), candidate.path);
+}
+
+/**
+ * Lists the non-empty arrays of objects reachable through nested objects,
+ * in document order. Arrays are not descended into.
+ */
+export function findRecordArrays(
+  document: unknown,
+  segments: string[] = [],
+  candidates: RecordArrayCandidate[] = [],
+): RecordArrayCandidate[] {
+  if (!isPlainObject(document)) return candidates;
+
+  for (const [key, value] of Object.entries(document)) {
+    const path = [...segments, key];
+    if (Array.isArray(value)) {
+      if (value.length > 0 && value.every(isPlainObject)) {
+        candidates.push({ path: formatRecordPath(path), length: value.length });
+      }
+    } else if (path.length < MAX_DETECTION_DEPTH) {
+      findRecordArrays(value, path, candidates);
+    }
+  }
+
+  return candidates;
+}
+
+/** Returns a copy of `envelope` with `records` put back at `recordPath`. */
+export function insertRecords(
+  envelope: RecordEnvelope,
+  recordPath: string,
+  records: unknown[],
+): RecordEnvelope {
+  const document = structuredClone(envelope);
+  const segments = parseRecordPath(recordPath);
+  const parent = resolve(document, segments.slice(0, -1));
+  (parent as Record<string, unknown>)[segments[segments.length - 1]!] = records;
+  return document;
+}
+
+function selectAt(
+  document: unknown,
+  segments: string[],
+  recordPath: string,
+): RecordSelection {
+  const records = resolve(document, segments);
+  if (!Array.isArray(records)) {
+    throw new ParseError(
+      `Invalid recordPath: "${recordPath}" does not point to an array`,
+    );
+  }
+  if (segments.length === 0) return { records };
+
+  const parent = resolve(document, segments.slice(0, -1)) as Record<
+    string,
+    unknown
+  >;
+  parent[segments[segments.length - 1]!] = [];
+
+  return {
+    records,
+    recordPath: formatRecordPath(segments),
+    envelope: document as RecordEnvelope,
+  };
+}
+
+function resolve(document: unknown, segments: string[]): unknown {
+  let current = document;
+
+  for (const segment of segments) {
+    if (Array.isArray(current)) {
+      if (!/^(0|[1-9]\d*)$/.test(segment)) return undefined;
+      current = current[Number(segment)];
+    } else if (
+      isPlainObject(current) &&
+      Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
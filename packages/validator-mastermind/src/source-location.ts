@@ -0,0 +1,413 @@
+import {
+  type ParseErrorLocation,
+  type SourceSnippet,
+  ParseError,
+} from "./types";
+
+/** Characters of context kept on each side of an error in a snippet. */
+const SNIPPET_RADIUS = 40;
+
+/** A point in the source: 1-based `line`/`column`, 0-based UTF-8 byte `offset`. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export const START_POSITION: SourcePosition = { line: 1, column: 1, offset: 0 };
+
+/** Returns the position reached after reading `text` from `from` up to `to`. */
+export function advancePosition(
+  start: SourcePosition,
+  text: string,
+  from: number = 0,
+  to: number = text.length,
+): SourcePosition {
+  let { line, column, offset } = start;
+
+  for (let i = from; i < to; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 0x0a) {
+      line++;
+      column = 1;
+      offset++;
+      continue;
+    }
+
+    column++;
+    if (code < 0x80) offset += 1;
+    else if (code < 0x800) offset += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      offset += 4;
+      i++;
+    } else offset += 3;
+  }
+
+  return { line, column, offset };
+}
+
+/**
+ * Follows the position of chunked input. `at()` must be called with
+ * increasing indexes into the current chunk, so the text is walked once.
+ */
+export class SourceTracker {
+  private position: SourcePosition;
+  private text = "";
+  private index = 0;
+
+  constructor(start: SourcePosition = START_POSITION) {
+    this.position = start;
+  }
+
+  /** Moves on to the next chunk of input. */
+  push(text: string): void {
+    this.at(this.text.length);
+    this.text = text;
+    this.index = 0;
+  }
+
+  /** Position of `text[index]` in the current chunk. */
+  at(index: number): SourcePosition {
+    this.position = advancePosition(
+      this.position,
+      this.text,
+      this.index,
+      index,
+    );
+    this.index = index;
+    return this.position;
+  }
+}
+
+/** The source line around `index`, clipped to `SNIPPET_RADIUS` on each side. */
+export function snippetAt(text: string, index: number): SourceSnippet {
+  const lineStart = index > 0 ? text.lastIndexOf("\n", index - 1) + 1 : 0;
+  const newline = text.indexOf("\n", index);
+  const lineEnd = newline === -1 ? text.length : newline;
+
+  const start = Math.max(lineStart, index - SNIPPET_RADIUS);
+  const end = Math.min(lineEnd, index + SNIPPET_RADIUS);
+  return {
+    text: text.slice(start, end).replace(/\r$/, ""),
+    pointer: index - start,
+  };
+}
+
+/** Full location of `text[index]`, where `text` itself starts at `base`. */
+export function locate(
+  text: string,
+  index: number,
+  base: SourcePosition = START_POSITION,
+): ParseErrorLocation {
+  return {
+    ...advancePosition(base, text, 0, index),
+    snippet: snippetAt(text, index),
+  };
+}
+
+/**
+ * Builds the `ParseError` for text that `JSON.parse` rejected. Engines word
+ * and position their messages differently, so the text is re-scanned to
+ * find the first offending character.
+ */
+export function jsonSyntaxError(
+  text: string,
+  options: {
+    base?: SourcePosition;
+    recordPath?: string[];
+    recordIndex?: number;
+  } = {},
+): ParseError {
+  const issue = findJsonSyntaxError(text, options.recordPath) ?? {
+    index: text.length,
+    reason: "the document could not be parsed",
+  };
+  const location = locate(text, issue.index, options.base);
+
+  return new ParseError(
+    `Invalid JSON at line ${location.line}, column ${location.column}: ${issue.reason}`,
+    { ...location, recordIndex: issue.recordIndex ?? options.recordIndex },
+  );
+}
+
+/**
+ * Returns `error` with `location` filled in, for structural errors raised
+ * after the record was read, when only its index is known.
+ */
+export function withRecordLocation(
+  error: unknown,
+  locateRecord: (recordIndex: number) => ParseErrorLocation | undefined,
+): unknown {
+  if (!(error instanceof ParseError) || error.recordIndex === undefined) {
+    return error;
+  }
+  const location = locateRecord(error.recordIndex);
+  if (!location) return error;
+
+  return new ParseError(error.message, { ...location, ...locationOf(error) });
+}
+
+function locationOf(error: ParseError): ParseErrorLocation {
+  const location: ParseErrorLocation = {};
+  if (error.row !== undefined) location.row = error.row;
+  if (error.line !== undefined) location.line = error.line;
+  if (error.column !== undefined) location.column = error.column;
+  if (error.offset !== undefined) location.offset = error.offset;
+  if (error.snippet !== undefined) location.snippet = error.snippet;
+  if (error.recordIndex !== undefined) location.recordIndex = error.recordIndex;
+  return location;
+}
+
+export interface JsonSyntaxIssue {
+  index: number;
+  reason: string;
+  /** Index of the record the error falls in, when `recordPath` was given. */
+  recordIndex?: number;
+}
+
+export function findJsonSyntaxError(
+  text: string,
+  recordPath?: string[],
+): JsonSyntaxIssue | null {
+  const scanner = new JsonScanner(text, recordPath);
+  try {
+    scanner.document();
+    return null;
+  } catch (error) {
+    if (error instanceof JsonSyntaxFailure) {
+      return {
+        index: error.index,
+        reason: error.reason,
+        recordIndex: scanner.recordIndex,
+      };
+    }
+    throw error;
+  }
+}
+
+/** Index in `text` where element `recordIndex` of the record array starts. */
+export function findRecordStart(
+  text: string,
+  recordPath: string[],
+  recordIndex: number,
+): number | undefined {
+  const scanner = new JsonScanner(text, recordPath, recordIndex);
+  try {
+    scanner.document();
+  } catch (error) {
+    if (!(error instanceof JsonSyntaxFailure)) throw error;
+  }
+  return scanner.recordStart;
+}
+
+class JsonSyntaxFailure {
+  constructor(
+    readonly index: number,
+    readonly reason: string,
+  ) {}
+}
+
+const NUMBER = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+
+/**
+ * Minimal recursive-descent JSON recogniser. It builds no values; it only
+ * tracks where it is, following the path to the record array so errors can
+ * be attributed to a record and records can be found by index.
+ */
+class JsonScanner {
+  private index = 0;
+  recordIndex?: number;
+  recordStart?: number;
+
+  constructor(
+    private readonly text: string,
+    private readonly recordPath?: string[],
+    private readonly wantedRecord?: number,
+  ) {}
+
+  document(): void {
+    this.whitespace();
+    this.value(this.recordPath ? [] : null);
+    this.whitespace();
+    if (this.index < this.text.length) {
+      this.fail("unexpected content after the end of the document");
+    }
+  }
+
+  /** `path` is null once the scanner has left the way to the record array. */
+  private value(path: string[] | null): void {
+    const char = this.text[this.index];
+
+    switch (char) {
+      case "{":
+        return this.object(path);
+      case "[":
+        return this.array(path);
+      case '"':
+        this.string();
+        return;
+      case "t":
+        return this.literal("true");
+      case "f":
+        return this.literal("false");
+      case "n":
+        return this.literal("null");
+      default:
+        if (
+          char === "-" ||
+          (char !== undefined && char >= "0" && char <= "9")
+        ) {
+          return this.number();
+        }
+        this.unexpected();
+    }
+  }
+
+  private object(path: string[] | null): void {
+    this.index++;
+    this.whitespace();
+    if (this.text[this.index] === "}") {
+      this.index++;
+      return;
+    }
+
+    for (;;) {
+      if (this.text[this.index] !== '"') {
+        this.unexpected("expected a property name in double quotes");
+      }
+      const keyStart = this.index;
+      this.string();
+      const key =
+        path === null
+          ? ""
+          : (JSON.parse(this.text.slice(keyStart, this.index)) as string);
+      this.whitespace();
+      if (this.text[this.index] !== ":") {
+        this.unexpected("expected ':' after the property name");
+      }
+      this.index++;
+      this.whitespace();
+      this.value(this.childPath(path, key));
+      this.whitespace();
+
+      const char = this.text[this.index];
+      this.index++;
+      if (char === "}") return;
+      if (char !== ",") {
+        this.index--;
+        this.unexpected("expected ',' or '}' after the property value");
+      }
+      this.whitespace();
+    }
+  }
+
+  private array(path: string[] | null): void {
+    const isRecordArray =
+      path !== null && path.length === this.recordPath!.length;
+
+    this.index++;
+    this.whitespace();
+    if (this.text[this.index] === "]") {
+      this.index++;
+      return;
+    }
+
+    for (let i = 0; ; i++) {
+      if (isRecordArray) {
+        this.recordIndex = i;
+        if (i === this.wantedRecord) {
+          // Nothing past the wanted record matters; unwind straight out.
+          this.recordStart = this.index;
+          throw new JsonSyntaxFailure(this.index, "found");
+        }
+      }
+      this.value(this.childPath(path, String(i)));
+      this.whitespace();
+
+      const char = this.text[this.index];
+      this.index++;
+      if (char === "]") break;
+      if (char !== ",") {
+        this.index--;
+        this.unexpected("expected ',' or ']' after the array element");
+      }
+      this.whitespace();
+    }
+
+    if (isRecordArray) this.recordIndex = undefined;
+  }
+
+  private childPath(path: string[] | null, segment: string): string[] | null {
+    if (path === null || path.length >= this.recordPath!.length) return null;
+    return this.recordPath![path.length] === segment
+      ? [...path, segment]
+      : null;
+  }
+
+  private string(): void {
+    this.index++;
+
+    for (;;) {
+      const char = this.text[this.index];
+      if (char === undefined) this.fail("unterminated string");
+      if (char === '"') break;
+      if (char === "\\") {
+        const escape = this.text[this.index + 1];
+        if (escape === "u") {
+          if (
+            !/^[0-9a-fA-F]{4}$/.test(
+              this.text.slice(this.index + 2, this.index + 6),
+            )
+          ) {
+            this.fail("invalid unicode escape in string");
+          }
+          this.index += 6;
+          continue;
+        }
+        if (escape === undefined || !'"\\/bfnrt'.includes(escape)) {
+          this.fail("invalid escape in string");
+        }
+        this.index += 2;
+        continue;
+      }
+      if (char < " ") this.fail("unescaped control character in string");
+      this.index++;
+    }
+
+    this.index++;
+  }
+
+  private number(): void {
+    NUMBER.lastIndex = this.index;
+    if (!NUMBER.test(this.text)) this.unexpected();
+    this.index = NUMBER.lastIndex;
+  }
+
+  private literal(word: string): void {
+    if (!this.text.startsWith(word, this.index)) this.unexpected();
+    this.index += word.length;
+  }
+
+  private whitespace(): void {
+    for (;;) {
+      const char = this.text[this.index];
+      if (char !== " " && char !== "\n" && char !== "\r" && char !== "\t") {
+        return;
+      }
+      this.index++;
+    }
+  }
+
+  private unexpected(expectation?: string): never {
+    const char = this.text[this.index];
+    const found =
+      char === undefined
+        ? "unexpected end of input"
+        : `unexpected ${JSON.stringify(char)}`;
+    this.fail(expectation ? `${found}, ${expectation}` : found);
+  }
+
+  private fail(reason: string): never {
+    throw new JsonSyntaxFailure(this.index, reason);
+  }
+}
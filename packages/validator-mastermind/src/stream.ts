@@ -0,0 +1,579 @@
+import {
+  type DataFormat,
+  type DataSet,
+  type ParseErrorLocation,
+  type RejectedRecord,
+  type StreamParseOptions,
+  DataFormats,
+  DataValidatorError,
+  FileSizeError,
+  ParseError,
+} from "./types";
+import { CsvReader } from "./csv";
+import { NdjsonReader } from "./ndjson";
+import {
+  type DataSetSource,
+  DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_MAX_NESTING_DEPTH,
+  DataSetBuilder,
+  locateJsonRecord,
+  parseJsonRecords,
+} from "./parse";
+import { formatRecordPath, parseRecordPath } from "./record-path";
+import {
+  type SourcePosition,
+  SourceTracker,
+  START_POSITION,
+  advancePosition,
+  findJsonSyntaxError,
+  jsonSyntaxError,
+  snippetAt,
+  withRecordLocation,
+} from "./source-location";
+
+interface RecordReader {
+  readonly rejected?: RejectedRecord[];
+  /** Where the records came from; available once `end()` has returned. */
+  readonly source?: DataSetSource;
+  push(text: string): Record<string, unknown>[];
+  end(): Record<string, unknown>[];
+  /** Source location of a record from the last `push()` or `end()` batch. */
+  locate?(index: number): ParseErrorLocation | undefined;
+}
+
+/**
+ * Streaming counterpart of `parse()`. Decodes and tokenizes the input chunk
+ * by chunk, so neither the raw text nor the full parsed document is ever held
+ * in memory at once. `onProgress` is called after every chunk.
+ */
+export async function parseStream(
+  stream: ReadableStream<Uint8Array>,
+  options: StreamParseOptions = {},
+): Promise<DataSet> {
+  const {
+    maxFileSize = DEFAULT_MAX_FILE_SIZE,
+    maxNestingDepth = DEFAULT_MAX_NESTING_DEPTH,
+    fileName = "unknown",
+    totalBytes = null,
+    onProgress,
+    signal,
+  } = options;
+
+  if (totalBytes !== null && totalBytes > maxFileSize) {
+    throw new FileSizeError(totalBytes, maxFileSize);
+  }
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const builder = new DataSetBuilder({
+    maxNestingDepth,
+    flagMissingKeys: options.flagMissingKeys,
+    flagUnexpectedKeys: options.flagUnexpectedKeys,
+    schema: options.schema,
+    locale: options.locale,
+  });
+  let recordReader: RecordReader | null = null;
+  let prefix = "";
+  let bytesRead = 0;
+
+  const feed = (text: string, final: boolean) => {
+    if (!recordReader) {
+      prefix += text;
+      const format = options.format ?? sniffStreamFormat(prefix, final);
+      if (!format) return;
+      recordReader = createRecordReader(format, options);
+      text = prefix;
+      prefix = "";
+    }
+    addRecords(recordReader, recordReader.push(text));
+    if (final) addRecords(recordReader, recordReader.end());
+  };
+
+  const addRecords = (
+    from: RecordReader,
+    records: Record<string, unknown>[],
+  ) => {
+    const first = builder.rowCount;
+    try {
+      for (const record of records) builder.add(record);
+    } catch (error) {
+      throw withRecordLocation(error, (index) => from.locate?.(index - first));
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw abortError();
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      if (bytesRead > maxFileSize) {
+        throw new FileSizeError(bytesRead, maxFileSize);
+      }
+
+      feed(decoder.decode(value, { stream: true }), false);
+      onProgress?.({ bytesRead, totalBytes, rowsParsed: builder.rowCount });
+    }
+
+    feed(decoder.decode(), true);
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (!recordReader) {
+    throw new ParseError("File is empty");
+  }
+
+  const { rejected, source } = recordReader as RecordReader;
+  return builder.build(fileName, { rejectedRecords: rejected, ...source });
+}
+
+function createRecordReader(
+  format: DataFormat,
+  options: StreamParseOptions,
+): RecordReader {
+  switch (format) {
+    case DataFormats.CSV:
+      return new CsvReader({
+        delimiter: options.delimiter,
+        hasHeader: options.hasHeader,
+        locale: options.locale,
+      });
+    case DataFormats.NDJSON:
+      return new NdjsonReader({ skipInvalidLines: options.skipInvalidLines });
+    case DataFormats.JSON:
+    default:
+      if (options.recordPath === undefined) return new JsonDocumentReader();
+      return parseRecordPath(options.recordPath).length === 0
+        ? new JsonArrayReader()
+        : new WrappedArrayReader(options.recordPath);
+  }
+}
+
+/**
+ * Decides between a JSON array and NDJSON from the start of a stream, the
+ * same way `parse()` does for a whole string. Returns `undefined` while more
+ * input is needed to tell them apart.
+ */
+function sniffStreamFormat(
+  prefix: string,
+  final: boolean,
+): DataFormat | undefined {
+  const start = prefix.search(/\S/);
+  if (start === -1) return final ? DataFormats.JSON : undefined;
+  if (prefix[start] !== "{") return DataFormats.JSON;
+
+  const newline = prefix.indexOf("\n", start);
+  if (newline === -1) return final ? DataFormats.JSON : undefined;
+
+  const rest = prefix.slice(newline + 1);
+  if (rest.trim().length === 0 && !final) return undefined;
+
+  try {
+    JSON.parse(prefix.slice(start, newline));
+    return rest.trim().length > 0 ? DataFormats.NDJSON : DataFormats.JSON;
+  } catch {
+    return DataFormats.JSON;
+  }
+}
+
+/**
+ * Reads a JSON document when no `recordPath` is given. A top-level array is
+ * streamed; a wrapping object is buffered whole, since its candidate arrays
+ * can only be detected once the entire document is known.
+ */
+class JsonDocumentReader implements RecordReader {
+  source?: DataSetSource;
+  private array: JsonArrayReader | null = null;
+  private document: string | null = null;
+  private locateInDocument?: (index: number) => ParseErrorLocation | undefined;
+
+  push(text: string): Record<string, unknown>[] {
+    if (this.array) return this.array.push(text);
+    if (this.document !== null) {
+      this.document += text;
+      return [];
+    }
+
+    const start = text.search(/\S/);
+    if (start === -1) return [];
+    if (text[start] === "{") {
+      this.document = text;
+      return [];
+    }
+
+    this.array = new JsonArrayReader();
+    return this.array.push(text);
+  }
+
+  end(): Record<string, unknown>[] {
+    if (this.document === null) {
+      return (this.array ?? new JsonArrayReader()).end();
+    }
+
+    const document = this.document;
+    const { records, ...source } = parseJsonRecords(document);
+    this.source = source;
+    this.locateInDocument = (index) =>
+      locateJsonRecord(document, source.recordPath, index);
+    return records;
+  }
+
+  locate(index: number): ParseErrorLocation | undefined {
+    return this.array
+      ? this.array.locate(index)
+      : this.locateInDocument?.(index);
+  }
+}
+
+interface Container {
+  isArray: boolean;
+  /** Member name or element index of the value currently being read. */
+  key: string | null;
+  expectsKey: boolean;
+}
+
+/**
+ * Streams the array at `recordPath` out of a wrapping document. Everything
+ * around the array is copied into the envelope text, with the array itself
+ * emptied, and parsed once the input ends.
+ */
+class WrappedArrayReader implements RecordReader {
+  source?: DataSetSource;
+  private readonly target: string[];
+  private stack: Container[] = [];
+  private inString = false;
+  private escaped = false;
+  private keyText: string | null = null;
+  private envelope = "";
+  private records: JsonArrayReader | null = null;
+  private finished = false;
+  private tracker = new SourceTracker();
+
+  constructor(private readonly recordPath: string) {
+    this.target = parseRecordPath(recordPath);
+  }
+
+  push(text: string): Record<string, unknown>[] {
+    const records: Record<string, unknown>[] = [];
+
+    while (text.length > 0) {
+      if (!this.records || this.finished) {
+        const index = this.scan(text);
+        if (index === -1) break;
+        this.records = new JsonArrayReader(true, this.tracker.at(index));
+        text = text.slice(index);
+      }
+
+      for (const record of this.records.push(text)) records.push(record);
+      if (this.records.rest === null) break;
+      text = this.records.rest;
+      this.tracker = new SourceTracker(this.records.restPosition);
+      this.finished = true;
+    }
+
+    return records;
+  }
+
+  end(): Record<string, unknown>[] {
+    if (this.envelope.trim().length === 0 && !this.records) {
+      throw new ParseError("File is empty");
+    }
+    if (this.records) this.records.end();
+
+    let envelope: unknown;
+    try {
+      envelope = JSON.parse(this.envelope);
+    } catch {
+      // The record array has been cut out of the envelope text, so offsets
+      // into it no longer match the source; only the reason is reported.
+      const issue = findJsonSyntaxError(this.envelope);
+      throw new ParseError(
+        `Invalid JSON outside the record array: ${issue?.reason ?? "the document could not be parsed"}`,
+      );
+    }
+
+    if (!this.records) {
+      throw new ParseError(
+        `Invalid recordPath: "${this.recordPath}" does not point to an array`,
+      );
+    }
+
+    this.source = {
+      recordPath: formatRecordPath(this.target),
+      envelope: envelope as DataSetSource["envelope"],
+    };
+    return [];
+  }
+
+  locate(index: number): ParseErrorLocation | undefined {
+    return this.records?.locate(index);
+  }
+
+  /**
+   * Copies `text` into the envelope up to the opening bracket of the record
+   * array and returns its index, or -1 when the array has not started yet.
+   */
+  private scan(text: string): number {
+    this.tracker.push(text);
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+
+      if (this.inString) {
+        if (this.keyText !== null) this.keyText += char;
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === '"') {
+          this.inString = false;
+          if (this.keyText !== null) {
+            this.stack[this.stack.length - 1]!.key = JSON.parse(this.keyText);
+            this.keyText = null;
+          }
+        }
+        continue;
+      }
+
+      const container = this.stack[this.stack.length - 1];
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          if (container?.expectsKey) this.keyText = '"';
+          break;
+        case ":":
+          if (container) container.expectsKey = false;
+          break;
+        case ",":
+          if (container?.isArray)
+            container.key = String(Number(container.key) + 1);
+          else if (container) container.expectsKey = true;
+          break;
+        case "[":
+          if (!this.finished && this.isAtTarget()) {
+            this.envelope += text.slice(0, i) + "[]";
+            return i;
+          }
+          this.stack.push({ isArray: true, key: "0", expectsKey: false });
+          break;
+        case "{":
+          this.stack.push({ isArray: false, key: null, expectsKey: true });
+          break;
+        case "]":
+        case "}":
+          this.stack.pop();
+          break;
+      }
+    }
+
+    this.envelope += text;
+    return -1;
+  }
+
+  private isAtTarget(): boolean {
+    return (
+      this.stack.length === this.target.length &&
+      this.stack.every((container, i) => container.key === this.target[i])
+    );
+  }
+}
+
+/**
+ * Splits a top-level JSON array into its elements without parsing the whole
+ * document: it tracks string and bracket state across chunks and hands each
+ * complete element to `JSON.parse` on its own. An `embedded` reader stops at
+ * the closing bracket and leaves the remaining text in `rest`.
+ */
+class JsonArrayReader implements RecordReader {
+  rest: string | null = null;
+  restPosition: SourcePosition = START_POSITION;
+  private locations: ParseErrorLocation[] = [];
+  private tracker: SourceTracker;
+  private elementStart: SourcePosition;
+  private started = false;
+  private ended = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private element = "";
+  private index = 0;
+
+  constructor(
+    private readonly embedded: boolean = false,
+    start: SourcePosition = START_POSITION,
+  ) {
+    this.tracker = new SourceTracker(start);
+    this.elementStart = start;
+  }
+
+  push(text: string): Record<string, unknown>[] {
+    const records: Record<string, unknown>[] = [];
+    let start = 0;
+    this.locations = [];
+    this.tracker.push(text);
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+
+      if (!this.started || this.ended) {
+        if (isWhitespace(char)) continue;
+        if (this.ended) {
+          throw this.errorAt(
+            text,
+            i,
+            (at) =>
+              `Invalid JSON at line ${at.line}, column ${at.column}: unexpected content after the array`,
+          );
+        }
+        if (char !== "[") {
+          throw this.errorAt(
+            text,
+            i,
+            "Unsupported structure: expected a JSON array of objects",
+          );
+        }
+        this.started = true;
+        start = i + 1;
+        this.elementStart = this.tracker.at(start);
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        if (this.depth > 0) {
+          this.depth--;
+          continue;
+        }
+        this.flush(this.element + text.slice(start, i), true, records);
+        this.ended = true;
+        if (this.embedded) {
+          this.rest = text.slice(i + 1);
+          this.restPosition = this.tracker.at(i + 1);
+          return records;
+        }
+      } else if (char === "," && this.depth === 0) {
+        this.flush(this.element + text.slice(start, i), false, records);
+        start = i + 1;
+        this.elementStart = this.tracker.at(start);
+      }
+    }
+
+    if (this.started && !this.ended) {
+      this.element += text.slice(start);
+    }
+    return records;
+  }
+
+  end(): Record<string, unknown>[] {
+    if (!this.started) throw new ParseError("File is empty");
+    if (!this.ended) {
+      const end = advancePosition(this.elementStart, this.element);
+      throw new ParseError(
+        `Invalid JSON at line ${end.line}, column ${end.column}: unexpected end of input`,
+        {
+          ...end,
+          snippet: snippetAt(this.element, this.element.length),
+          recordIndex: this.index,
+        },
+      );
+    }
+    if (this.index === 0) {
+      throw new ParseError("Empty dataset: the JSON array contains no records");
+    }
+    this.locations = [];
+    return [];
+  }
+
+  locate(index: number): ParseErrorLocation | undefined {
+    return this.locations[index];
+  }
+
+  private flush(
+    source: string,
+    closing: boolean,
+    records: Record<string, unknown>[],
+  ): void {
+    this.element = "";
+    const trimmed = source.trim();
+
+    // "[]" is a valid (if empty) array; any other empty slot is a stray comma.
+    if (trimmed.length === 0 && closing && this.index === 0) return;
+    if (trimmed.length === 0) {
+      const delimiter = closing ? "]" : ",";
+      const at = advancePosition(this.elementStart, source);
+      throw new ParseError(
+        `Invalid JSON at line ${at.line}, column ${at.column}: unexpected "${delimiter}"`,
+        {
+          ...at,
+          snippet: snippetAt(source + delimiter, source.length),
+          recordIndex: this.index,
+        },
+      );
+    }
+
+    let record: unknown;
+    try {
+      record = JSON.parse(trimmed);
+    } catch {
+      throw jsonSyntaxError(source, {
+        base: this.elementStart,
+        recordIndex: this.index,
+      });
+    }
+
+    const leading = source.length - source.trimStart().length;
+    const location: ParseErrorLocation = {
+      ...advancePosition(this.elementStart, source, 0, leading),
+      snippet: snippetAt(trimmed, 0),
+    };
+
+    if (
+      record === null ||
+      typeof record !== "object" ||
+      Array.isArray(record)
+    ) {
+      throw new ParseError(
+        `Invalid record at index ${this.index}: expected a flat object`,
+        { ...location, recordIndex: this.index },
+      );
+    }
+
+    records.push(record as Record<string, unknown>);
+    this.locations.push(location);
+    this.index++;
+  }
+
+  private errorAt(
+    text: string,
+    index: number,
+    message: string | ((at: SourcePosition) => string),
+  ): ParseError {
+    const at = this.tracker.at(index);
+    return new ParseError(typeof message === "string" ? message : message(at), {
+      ...at,
+      snippet: snippetAt(text, index),
+    });
+  }
+}
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t";
+}
+
+function abortError(): DataValidatorError {
+  return new DataValidatorError("ABORTED", "Loading was cancelled");
+}
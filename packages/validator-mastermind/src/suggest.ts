@@ -0,0 +1,227 @@
+import type {
+  CellType,
+  Column,
+  ColumnProfile,
+  ListItem,
+  RuleSuggestion,
+  ValidationRule,
+  ValueCount,
+} from "./types";
+import { CellTypes, ValidationRuleTypes } from "./types";
+import { EMAIL_PATTERN, UUID_PATTERN } from "./formats";
+
+/** Evidence from this many values weighs one half; more approaches one. */
+const SAMPLE_PRIOR = 10;
+/** Share of the values a type or pattern must cover to be suggested. */
+const MIN_SHARE = 0.95;
+const MAX_ENUM_VALUES = 10;
+/** An enum is only suggested when values repeat this often on average. */
+const MIN_ENUM_REPEATS = 3;
+
+/** Types an `enum` suggestion would add nothing to. */
+const NO_ENUM_TYPES = new Set<CellType>([
+  CellTypes.BOOLEAN,
+  CellTypes.LIST,
+  CellTypes.ENUM,
+]);
+
+const NUMERIC_TYPES = new Set<CellType>([
+  CellTypes.NUMBER,
+  CellTypes.INTEGER,
+  CellTypes.DECIMAL,
+  CellTypes.CURRENCY,
+]);
+
+/** Shapes worth naming, tried before a pattern is derived from the values. */
+const KNOWN_PATTERNS: { name: string; pattern: string }[] = [
+  { name: "email addresses", pattern: EMAIL_PATTERN },
+  { name: "UUIDs", pattern: UUID_PATTERN },
+  { name: "URLs", pattern: "^https?://\\S+$" },
+  { name: "ZIP codes", pattern: "^\\d{5}(-\\d{4})?$" },
+  { name: "phone numbers", pattern: "^\\+?\\d[\\d\\s().-]{5,}\\d$" },
+];
+
+/**
+ * Proposes rules the column's current values already satisfy: `required`
+ * when nothing is empty, `enum` for a few repeated values, a `pattern` for
+ * strings of one shape and `min`/`max` from the numeric range. Rule types
+ * the column already has are not suggested again.
+ */
+export function suggestRules(
+  column: Column,
+  profile: ColumnProfile,
+  values: Iterable<ValueCount>,
+): RuleSuggestion[] {
+  const existing = new Set((column.validation ?? []).map((rule) => rule.type));
+  const suggestions: RuleSuggestion[] = [];
+  const suggest = (
+    rule: ValidationRule,
+    share: number,
+    evidence: number,
+    reason: string,
+  ) => {
+    if (existing.has(rule.type)) return;
+    suggestions.push({
+      columnKey: column.key,
+      rule,
+      confidence: Math.round(share * weigh(evidence) * 100) / 100,
+      reason,
+    });
+  };
+
+  const { rowCount, missingCount, nullCount, emptyCount, distinctCount } =
+    profile;
+  const filled = rowCount - missingCount - nullCount;
+  const distinct = [...values].sort((a, b) => b.count - a.count);
+
+  if (rowCount > 0 && filled - emptyCount === rowCount) {
+    suggest(
+      { type: ValidationRuleTypes.REQUIRED },
+      1,
+      rowCount,
+      `No empty values in ${rowCount} rows`,
+    );
+  }
+
+  const isEnum =
+    !NO_ENUM_TYPES.has(column.type) &&
+    distinctCount > 0 &&
+    distinctCount <= MAX_ENUM_VALUES &&
+    distinctCount * MIN_ENUM_REPEATS <= filled;
+  if (isEnum) {
+    suggest(
+      {
+        type: ValidationRuleTypes.ENUM,
+        values: distinct.map(({ value }) => value as ListItem),
+      },
+      1,
+      filled - distinctCount,
+      `${distinctCount} distinct value(s) across ${filled} rows`,
+    );
+  }
+
+  const strings = distinct.filter(
+    (entry): entry is { value: string; count: number } =>
+      typeof entry.value === "string" && entry.value !== "",
+  );
+  const stringCount = strings.reduce((sum, { count }) => sum + count, 0);
+  if (column.type === CellTypes.STRING && !isEnum && stringCount > 0) {
+    const match = matchPattern(strings, stringCount);
+    if (match) {
+      suggest(
+        { type: ValidationRuleTypes.PATTERN, value: match.pattern },
+        match.share,
+        stringCount,
+        `${Math.round(match.share * 100)}% of values ${match.description}`,
+      );
+    }
+  }
+
+  const numberCount = profile.typeCounts[CellTypes.NUMBER] ?? 0;
+  if (NUMERIC_TYPES.has(column.type) && profile.numbers && filled > 0) {
+    const share = numberCount / filled;
+    if (share >= MIN_SHARE) {
+      const { min, max } = profile.numbers;
+      const reason = `Observed values range from ${min} to ${max}`;
+      suggest(
+        { type: ValidationRuleTypes.MIN, value: min },
+        share,
+        numberCount,
+        reason,
+      );
+      suggest(
+        { type: ValidationRuleTypes.MAX, value: max },
+        share,
+        numberCount,
+        reason,
+      );
+    }
+  }
+
+  return suggestions;
+}
+
+function weigh(evidence: number): number {
+  return evidence / (evidence + SAMPLE_PRIOR);
+}
+
+/**
+ * Finds a pattern covering at least `MIN_SHARE` of the strings: a known
+ * shape first, then one derived from the values with exact run lengths,
+ * then the same with any run length.
+ */
+function matchPattern(
+  strings: { value: string; count: number }[],
+  total: number,
+): { pattern: string; share: number; description: string } | null {
+  for (const { name, pattern } of KNOWN_PATTERNS) {
+    const regex = new RegExp(pattern);
+    const share =
+      strings.reduce(
+        (sum, { value, count }) => sum + (regex.test(value) ? count : 0),
+        0,
+      ) / total;
+    if (share >= MIN_SHARE) {
+      return { pattern, share, description: `look like ${name}` };
+    }
+  }
+
+  for (const exact of [true, false]) {
+    const shapes = new Map<string, number>();
+    for (const { value, count } of strings) {
+      const shape = shapeOf(value, exact);
+      shapes.set(shape, (shapes.get(shape) ?? 0) + count);
+    }
+
+    for (const [shape, count] of shapes) {
+      const share = count / total;
+      if (share >= MIN_SHARE) {
+        return { pattern: `^${shape}$`, share, description: "share one shape" };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describes a string as runs of character classes: `AB-1234` becomes
+ * `[A-Z]{2}-\d{4}`, or `[A-Z]+-\d+` when `exact` is false.
+ */
+function shapeOf(value: string, exact: boolean): string {
+  let shape = "";
+  let run = "";
+  let length = 0;
+
+  const flush = () => {
+    if (length === 0) return;
+    shape += run;
+    if (isClass(run) && !exact) shape += "+";
+    else if (isClass(run) && length > 1) shape += `{${length}}`;
+  };
+
+  for (const char of value) {
+    const token = classOf(char);
+    if (token === run && isClass(token)) {
+      length++;
+      continue;
+    }
+    flush();
+    run = token;
+    length = 1;
+  }
+  flush();
+
+  return shape;
+}
+
+function isClass(token: string): boolean {
+  return token.startsWith("[") || token === "\\d";
+}
+
+function classOf(char: string): string {
+  if (char >= "A" && char <= "Z") return "[A-Z]";
+  if (char >= "a" && char <= "z") return "[a-z]";
+  if (char >= "0" && char <= "9") return "\\d";
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -3,10 +3,33 @@ export const CellTypes = {
   NUMBER: "number",
   BOOLEAN: "boolean",
   DATE: "date",
+  LIST: "list",
+  INTEGER: "integer",
+  /** A number with optional `precision` and `scale` limits. */
+  DECIMAL: "decimal",
+  EMAIL: "email",
+  URL: "url",
+  UUID: "uuid",
+  /** One of the column's `values`. */
+  ENUM: "enum",
+  /** A 24-hour time of day such as `14:30` or `14:30:05`. */
+  TIME: "time",
+  /** An ISO 8601 date with a time of day. */
+  DATETIME: "datetime",
+  /** An amount, either a number or text such as `$1,234.50`. */
+  CURRENCY: "currency",
 } as const;
 
 export type CellType = (typeof CellTypes)[keyof typeof CellTypes];
 
+export const DataFormats = {
+  JSON: "json",
+  CSV: "csv",
+  NDJSON: "ndjson",
+} as const;
+
+export type DataFormat = (typeof DataFormats)[keyof typeof DataFormats];
+
 export const ValidationRuleTypes = {
   REQUIRED: "required",
   MIN: "min",
@@ -14,33 +37,314 @@ export const ValidationRuleTypes = {
   PATTERN: "pattern",
   MIN_LENGTH: "min-length",
   MAX_LENGTH: "max-length",
+  MIN_ITEMS: "min-items",
+  MAX_ITEMS: "max-items",
+  UNIQUE_ITEMS: "unique-items",
+  ITEMS: "items",
+  KEY_PRESENT: "key-present",
+  KEY_ABSENT: "key-absent",
+  ENUM: "enum",
 } as const;
 
 export type ValidationRuleType =
   (typeof ValidationRuleTypes)[keyof typeof ValidationRuleTypes];
 
+/**
+ * How much a failed rule matters. Only `error` blocks: `warning` and `info`
+ * flag values worth a look, such as one that is unusually large.
+ */
+export const Severities = {
+  ERROR: "error",
+  WARNING: "warning",
+  INFO: "info",
+} as const;
+
+export type Severity = (typeof Severities)[keyof typeof Severities];
+
+/** Rules over several cells of a row; see `RowRule`. */
+export const RowRuleTypes = {
+  /** `columns[0]` compared with `columns[1]` using `operator`. */
+  COMPARE: "compare",
+  /** `columns[0]` must be filled when `columns[1]` holds one of `values`, or anything. */
+  REQUIRED_IF: "required-if",
+  /** No two rows may share their values in all of `columns`. */
+  UNIQUE: "unique",
+} as const;
+
+export type RowRuleType = (typeof RowRuleTypes)[keyof typeof RowRuleTypes];
+
+/** Rules over the data set as a whole; see `DatasetRule`. */
+export const DatasetRuleTypes = {
+  /** At least `value` rows. */
+  MIN_ROWS: "min-rows",
+  /** At most `value` rows. */
+  MAX_ROWS: "max-rows",
+  /** The numbers in `column` add up to `value`, compared using `operator`. */
+  SUM: "sum",
+  /** Each of `values` appears in `column` at least once. */
+  CONTAINS: "contains",
+} as const;
+
+export type DatasetRuleType =
+  (typeof DatasetRuleTypes)[keyof typeof DatasetRuleTypes];
+
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
 export const ValidationMessages = {
   EXPECTED_NUMBER: "Expected a number value",
   EXPECTED_BOOLEAN: "Expected a boolean value",
   EXPECTED_DATE: "Expected a valid date",
+  EXPECTED_DATE_FORMAT: (format: string) => `Expected a date as ${format}`,
+  EXPECTED_LIST: "Expected a list of values",
+  EXPECTED_INTEGER: "Expected a whole number",
+  EXPECTED_DECIMAL: "Expected a decimal number",
+  EXPECTED_EMAIL: "Expected an email address",
+  EXPECTED_URL: "Expected a URL",
+  EXPECTED_UUID: "Expected a UUID",
+  EXPECTED_TIME: "Expected a time of day (HH:MM or HH:MM:SS)",
+  EXPECTED_DATETIME: "Expected a date and time",
+  EXPECTED_CURRENCY: "Expected a currency amount",
+  PRECISION: (precision: number) =>
+    `Value must have at most ${precision} digits`,
+  SCALE: (scale: number) =>
+    `Value must have at most ${scale} digits after the decimal point`,
   REQUIRED: "This field is required",
   MIN: (min: number) => `Value must be at least ${min}`,
   MAX: (max: number) => `Value must be at most ${max}`,
   PATTERN: "Value does not match required pattern",
   MIN_LENGTH: (min: number) => `Value must be at least ${min} characters`,
   MAX_LENGTH: (max: number) => `Value must be at most ${max} characters`,
+  MIN_ITEMS: (min: number) => `List must contain at least ${min} items`,
+  MAX_ITEMS: (max: number) => `List must contain at most ${max} items`,
+  UNIQUE_ITEMS: "List items must be unique",
+  ITEM: (index: number, message: string) => `Item ${index + 1}: ${message}`,
+  MISSING_KEY: "This key is missing from the record",
+  UNEXPECTED_KEY: "This key was not expected in the record",
+  CUSTOM: (name: string) => `Value does not satisfy the ${name} rule`,
+  ASYNC_FAILED: (name: string) => `The ${name} check could not be completed`,
+  ENUM: (values: ListItem[]) =>
+    `Value must be one of ${values.map((v) => JSON.stringify(v)).join(", ")}`,
+  COMPARE_LT: (field: string, other: string) =>
+    `${field} must be less than ${other}`,
+  COMPARE_LTE: (field: string, other: string) =>
+    `${field} must be at most ${other}`,
+  COMPARE_GT: (field: string, other: string) =>
+    `${field} must be greater than ${other}`,
+  COMPARE_GTE: (field: string, other: string) =>
+    `${field} must be at least ${other}`,
+  COMPARE_EQ: (field: string, other: string) =>
+    `${field} must be equal to ${other}`,
+  COMPARE_NE: (field: string, other: string) =>
+    `${field} must be different from ${other}`,
+  REQUIRED_IF: (field: string, other: string, values?: ListItem[]): string =>
+    values
+      ? `${field} is required when ${other} is ${values.map((v) => JSON.stringify(v)).join(" or ")}`
+      : ValidationMessages.REQUIRED_IF_FILLED(field, other),
+  REQUIRED_IF_FILLED: (field: string, other: string) =>
+    `${field} is required when ${other} is filled in`,
+  UNIQUE: (fields: string[], rows: number[], count: number) => {
+    const subject =
+      fields.length === 1 ? "Value" : `${fields.join(" + ")} combination`;
+    const more = count > rows.length ? ` and ${count - rows.length} more` : "";
+    return `${subject} is not unique; also in row${count === 1 ? "" : "s"} ${rows.join(", ")}${more}`;
+  },
+  MIN_ROWS: (min: number, count: number) =>
+    `The data must have at least ${min} rows but has ${count}`,
+  MAX_ROWS: (max: number, count: number) =>
+    `The data must have at most ${max} rows but has ${count}`,
+  SUM_LT: (field: string, total: number, sum: number) =>
+    `The sum of ${field} must be less than ${total} but is ${sum}`,
+  SUM_LTE: (field: string, total: number, sum: number) =>
+    `The sum of ${field} must be at most ${total} but is ${sum}`,
+  SUM_GT: (field: string, total: number, sum: number) =>
+    `The sum of ${field} must be greater than ${total} but is ${sum}`,
+  SUM_GTE: (field: string, total: number, sum: number) =>
+    `The sum of ${field} must be at least ${total} but is ${sum}`,
+  SUM_EQ: (field: string, total: number, sum: number) =>
+    `The sum of ${field} must be equal to ${total} but is ${sum}`,
+  SUM_NE: (field: string, total: number, sum: number) =>
+    `The sum of ${field} must be different from ${total} but is ${sum}`,
+  CONTAINS: (field: string, missing: ListItem[]) =>
+    `${field} must contain ${missing.map((v) => JSON.stringify(v)).join(", ")} at least once`,
 } as const;
 
+/**
+ * Identifies what failed, independent of the message's wording: one code
+ * per entry of `ValidationMessages`, e.g. `EXPECTED_NUMBER` or `MIN`.
+ */
+export type ValidationErrorCode = keyof typeof ValidationMessages;
+
+/**
+ * Message templates by error code, used instead of the English defaults.
+ * `{name}` placeholders are filled from the error's `params` and `{value}`
+ * with the offending value, e.g. `{ MIN: "Mindestens {min}" }`.
+ */
+export type MessageCatalogue = Partial<Record<ValidationErrorCode, string>>;
+
 export interface ValidationRule {
-  type: ValidationRuleType;
+  /**
+   * Names the rule within its column. `DataStore` gives rules it is handed
+   * without one an id such as `rule-3`.
+   */
+  id?: string;
+  /** A built-in rule type or the name of a registered `CustomRule`. */
+  type: ValidationRuleType | (string & {});
   value?: string | number;
   message?: string;
+  /** For `items`: the rules every list item must satisfy. */
+  rules?: ValidationRule[];
+  /** For `enum`: the allowed values. */
+  values?: ListItem[];
+  /** For custom rules: passed to the validator and to its message template. */
+  params?: Record<string, unknown>;
+  /** Severity of the errors the rule reports; `error` when omitted. */
+  severity?: Severity;
+  /**
+   * Runs the rule only on rows where the condition holds, or where all of
+   * them hold when given a list.
+   */
+  when?: RuleCondition | RuleCondition[];
+}
+
+/**
+ * A test on a cell of the row that gates a rule: the cell is one of
+ * `values`, compares to `value` by `operator` the way a `compare` row rule
+ * does, or, with neither, is not empty.
+ */
+export interface RuleCondition {
+  column: string;
+  values?: ListItem[];
+  operator?: ComparisonOperator;
+  value?: string | number | boolean;
+}
+
+/**
+ * A rule type of your own, registered by name with the `customRules` option
+ * or `DataStore.registerRule` and then used like a built-in:
+ * `{ type: "iban", params: { country: "DE" } }`. `P` is the shape of the
+ * rule's `params`. Empty cells are skipped; that is `required`'s job.
+ */
+export interface CustomRule<P = Record<string, unknown>> {
+  async?: false;
+  /**
+   * Returns `true` when the value passes, `false` to report `message`, or a
+   * message of its own. Declared as a method so rules with differently
+   * typed params fit in one `CustomRules` registry.
+   */
+  validate(value: CellValue, context: CustomRuleContext<P>): boolean | string;
+  /**
+   * Message for a failing value. `{value}` and `{name}` placeholders are
+   * filled from the value and the rule's `params`.
+   */
+  message?: string;
+  /**
+   * Keys of the other cells of `context.row` the rule reads, so editing
+   * them re-checks it. Without it the rule is re-checked on every edit of
+   * its row; `[]` declares that it reads only its own cell.
+   */
+  reads?: string[];
+}
+
+export interface CustomRuleContext<P = Record<string, unknown>> {
+  column: Column;
+  /** The whole row, when the cell is validated as part of one. */
+  row?: Row;
+  params: P;
+}
+
+/**
+ * A custom rule whose check is asynchronous, such as a lookup on a server.
+ * The store runs it after the synchronous rules, lists the cell in its row's
+ * `pending` until the result is in, and aborts `signal` when the cell
+ * changes again before then.
+ */
+export interface AsyncCustomRule<P = Record<string, unknown>> {
+  async: true;
+  /** Resolves like `CustomRule.validate`; a rejection is reported as an error. */
+  validate(
+    value: CellValue,
+    context: CustomRuleContext<P> & { signal: AbortSignal },
+  ): Promise<boolean | string>;
+  /** As for `CustomRule`. */
+  message?: string;
+  /** As for `CustomRule`. */
+  reads?: string[];
+}
+
+export type CustomRules = Record<
+  string,
+  CustomRule<object> | AsyncCustomRule<object>
+>;
+
+/**
+ * A rule reading several cells of the same row, such as "end_date after
+ * start_date" or "zip required when country is US". Its error is attached
+ * to each of the `report` columns.
+ */
+export interface RowRule {
+  type: RowRuleType;
+  /** Keys of the cells the rule reads, in the order its type describes. */
+  columns: string[];
+  /** For `compare`. */
+  operator?: ComparisonOperator;
+  /** For `required-if`: values of `columns[1]` that make `columns[0]` required. */
+  values?: ListItem[];
+  /**
+   * Columns the error is attached to; `columns[0]` when omitted, or all of
+   * `columns` for `unique`.
+   */
+  report?: string[];
+  message?: string;
+  /** Severity of the errors the rule reports; `error` when omitted. */
+  severity?: Severity;
+}
+
+/**
+ * A rule about all rows together, such as "at least 10 rows" or "the
+ * allocations add up to 100". Its errors go to `DataSet.datasetErrors`
+ * rather than to a row.
+ */
+export interface DatasetRule {
+  type: DatasetRuleType;
+  /** For `sum` and `contains`: key of the column the rule reads. */
+  column?: string;
+  /** For `sum`; `==` when omitted. */
+  operator?: ComparisonOperator;
+  /** The row count for `min-rows` and `max-rows`, the total for `sum`. */
+  value?: number;
+  /** For `contains`: the values that must each appear. */
+  values?: ListItem[];
+  message?: string;
+  /** Severity of the error the rule reports; `error` when omitted. */
+  severity?: Severity;
+}
+
+/** A failed `DatasetRule`. */
+export interface DatasetError {
+  rule: DatasetRuleType;
+  code: ValidationErrorCode;
+  message: string;
+  /** The column the rule reads, if any. */
+  column?: string;
+  /** What the message is built from, e.g. `{ min: 10, count: 4 }` for `MIN_ROWS`. */
+  params: Record<string, unknown>;
+  severity: Severity;
 }
 
 export interface ValidationError {
-  rule: ValidationRuleType;
+  /** The rule that failed, or `type` when the value does not fit the column's type. */
+  rule: ValidationRuleType | RowRuleType | "type" | (string & {});
+  code: ValidationErrorCode;
   message: string;
   column: string;
+  /** The offending cell value; `undefined` when the record lacks the key. */
+  value?: CellValue;
+  /** What the message is built from, e.g. `{ min: 0 }` for `MIN`. */
+  params?: Record<string, unknown>;
+  /** The rule's severity; type mismatches are always errors. */
+  severity: Severity;
+  /** For `unique`: ids of (up to ten of) the rows holding the same values. */
+  duplicates?: string[];
 }
 
 export interface Column {
@@ -48,14 +352,165 @@ export interface Column {
   label: string;
   type: CellType;
   validation?: ValidationRule[];
+  /** Segments of a flattened nested key, e.g. `["address", "city"]` for `address.city`. */
+  path?: string[];
+  /** Type of the items of a `list` column. */
+  itemType?: CellType;
+  /** Number of source records that contained the key, even with a null value. */
+  presentCount?: number;
+  /** For `decimal`: maximum number of significant digits. */
+  precision?: number;
+  /** For `decimal`: maximum digits after the decimal point. */
+  scale?: number;
+  /** For `enum`: the allowed values. */
+  values?: ListItem[];
+  /** For `currency`: ISO 4217 code, used for formatting and the allowed decimals. */
+  currency?: string;
+  /** BCP 47 tag numbers and dates in the column's text are written in, e.g. `de-DE`. */
+  locale?: string;
+  /** For `date` and `datetime`: the only format accepted, e.g. `DD/MM/YYYY`. */
+  dateFormat?: string;
 }
 
-export type CellValue = string | number | boolean | null;
+/** Declares a column up front instead of leaving it to type inference. */
+export interface ColumnSchema {
+  key: string;
+  /** Segments of a nested key, for when no record contains it to learn from. */
+  path?: string[];
+  label?: string;
+  /** Type cells are validated against. Inferred from the data when omitted. */
+  type?: CellType;
+  itemType?: CellType;
+  precision?: number;
+  scale?: number;
+  values?: ListItem[];
+  currency?: string;
+  /**
+   * Format of the key's date text, from `YYYY`, `MM`/`M`, `DD`/`D`, `HH`,
+   * `mm` and `ss`. Values in it infer as dates even when `type` is omitted.
+   */
+  dateFormat?: string;
+  /** Every record must hold a non-empty value for the key. */
+  required?: boolean;
+  /** Records may leave the key out; otherwise a missing key is an error. */
+  optional?: boolean;
+  validation?: ValidationRule[];
+}
+
+export interface DataSchema {
+  columns: ColumnSchema[];
+  /**
+   * Accept keys the schema does not declare, with inferred types. When
+   * `false` (the default) records carrying such a key are reported.
+   */
+  additionalColumns?: boolean;
+}
+
+/**
+ * A JSON Schema document or subschema. Only the keywords the importer and
+ * exporter understand are typed; any other keyword is allowed through.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  type?: string | string[];
+  properties?: Record<string, JsonSchema | boolean>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema | boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/** A keyword `fromJsonSchema()` could not translate into column rules. */
+export interface UnsupportedKeyword {
+  keyword: string;
+  /** JSON Pointer to the keyword within the imported document. */
+  path: string;
+  message: string;
+}
+
+export interface JsonSchemaImport {
+  schema: DataSchema;
+  unsupported: UnsupportedKeyword[];
+}
+
+export interface ValueCount {
+  value: CellValue;
+  count: number;
+}
+
+export interface ColumnProfile {
+  columnKey: string;
+  /** Rows in the data set. */
+  rowCount: number;
+  /** Rows whose record did not contain the key. */
+  missingCount: number;
+  nullCount: number;
+  /** Empty strings and empty lists. */
+  emptyCount: number;
+  /** Distinct non-null values. */
+  distinctCount: number;
+  /** The most frequent non-null values, most frequent first. */
+  topValues: ValueCount[];
+  /** Non-null values by detected type, as counted for type inference. */
+  typeCounts: Partial<Record<CellType, number>>;
+  numbers?: { min: number; max: number; mean: number };
+  /** Earliest and latest date strings, as they appear in the data. */
+  dates?: { min: string; max: string };
+  strings?: {
+    minLength: number;
+    maxLength: number;
+    meanLength: number;
+    /** Number of strings of each length, shortest first. */
+    lengths: { length: number; count: number }[];
+  };
+}
+
+/** A rule proposed from the loaded data, to accept with `addValidationRules`. */
+export interface RuleSuggestion {
+  columnKey: string;
+  rule: ValidationRule;
+  /** From 0 to 1: how consistently the data follows the rule, weighed by how much data there is. */
+  confidence: number;
+  /** What in the data the suggestion is based on. */
+  reason: string;
+}
+
+export type ListItem = string | number | boolean | null;
+
+export type CellValue = ListItem | ListItem[];
+
+/** A record as produced by `exportData()`, with flattened columns nested again. */
+export interface ExportRecord {
+  [key: string]: CellValue | ExportRecord;
+}
 
 export interface Row {
   id: string;
+  /** Keys the source record did not contain are absent, not `null`. */
   cells: Record<string, CellValue>;
   errors: Record<string, ValidationError[]>;
+  /** Keys of the cells whose asynchronous rules have not finished yet. */
+  pending?: string[];
+}
+
+/** A source line that was skipped instead of failing the whole load. */
+export interface RejectedRecord {
+  line: number;
+  content: string;
+  reason: string;
 }
 
 export interface DataSetMetadata {
@@ -63,12 +518,29 @@ export interface DataSetMetadata {
   rowCount: number;
   columnCount: number;
   importedAt: string;
+  rejectedRecords?: RejectedRecord[];
+  /** JSON Pointer of the record array when it was read from a wrapping object. */
+  recordPath?: string;
+  /** The wrapping object with the record array emptied, for `exportDocument()`. */
+  envelope?: RecordEnvelope;
+}
+
+/** The parsed document a record array was taken from, minus the records. */
+export type RecordEnvelope = Record<string, unknown> | unknown[];
+
+/** An array of objects found inside a wrapped JSON document. */
+export interface RecordArrayCandidate {
+  /** JSON Pointer to the array, usable as `recordPath`. */
+  path: string;
+  length: number;
 }
 
 export interface DataSet {
   columns: Column[];
   rows: Row[];
   metadata: DataSetMetadata;
+  /** Errors of the `datasetRules`, once the rows were validated. */
+  datasetErrors?: DatasetError[];
 }
 
 export interface CellEdit {
@@ -81,12 +553,86 @@ export interface DataStoreOptions {
   maxFileSize?: number;
   maxNestingDepth?: number;
   validationRules?: Record<string, ValidationRule[]>;
+  /** Rules over several cells of a row, checked after the per-column rules. */
+  rowRules?: RowRule[];
+  /** Rules over all rows together, checked after every load and edit. */
+  datasetRules?: DatasetRule[];
+  /** Rule types of your own, by name; see `CustomRule`. */
+  customRules?: CustomRules;
+  /** How many asynchronous checks may run at once. Defaults to 4. */
+  asyncConcurrency?: number;
+  /**
+   * How long an edited cell must stay unchanged before its asynchronous
+   * rules run, in milliseconds. Defaults to 300.
+   */
+  asyncDebounceMs?: number;
+  skipInvalidLines?: boolean;
+  flagMissingKeys?: boolean;
+  flagUnexpectedKeys?: boolean;
+  /** Default `recordPath` for wrapped JSON documents; loads may override it. */
+  recordPath?: string;
+  /** Expected columns. Keys it does not declare fall back to inference. */
+  schema?: DataSchema;
+  /**
+   * BCP 47 tag of the locale numeric and date text is written in, such as
+   * `de-DE` for `1.234,56` and `31.12.2024`. See `ParseOptions.locale`.
+   */
+  locale?: string;
+  /**
+   * Message catalogues by BCP 47 tag, e.g. `{ de: {...}, fr: {...} }`. A
+   * rule's own `message` is never replaced.
+   */
+  messages?: Record<string, MessageCatalogue>;
+  /**
+   * Locale of the messages, falling back from `de-CH` to `de` and then to
+   * English. Defaults to `locale`.
+   */
+  messageLocale?: string;
+  /**
+   * Runs parsing and full re-validation on a worker that called
+   * `exposeWorker()`. Accepts a Web `Worker` or a Node `worker_threads` Worker.
+   */
+  worker?: WorkerEndpoint;
+}
+
+/**
+ * The subset of the Web Worker / `worker_threads` messaging API the SDK uses.
+ * Browser endpoints deliver `{ data }` events through `addEventListener`;
+ * Node endpoints deliver the raw value through `on`.
+ */
+export interface WorkerEndpoint {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  addEventListener?(
+    type: "message",
+    listener: (event: { data: unknown }) => void,
+  ): void;
+  on?(event: "message", listener: (value: unknown) => void): void;
+}
+
+export interface LoadProgress {
+  bytesRead: number;
+  /** Total size of the input when known up front, e.g. from `File.size`. */
+  totalBytes: number | null;
+  rowsParsed: number;
+}
+
+/**
+ * A re-validation on the worker that failed. The cells of `keys` keep their
+ * errors from before the rule change until those columns are re-validated.
+ */
+export interface RevalidationFailure {
+  error: DataValidatorError;
+  keys: string[];
 }
 
 export type DataStoreState =
   | { status: "idle" }
-  | { status: "loading" }
-  | { status: "loaded"; data: DataSet }
+  | { status: "loading"; progress?: LoadProgress }
+  | {
+      status: "loaded";
+      data: DataSet;
+      revalidationFailure?: RevalidationFailure;
+    }
   | { status: "error"; error: DataValidatorError };
 
 export type Subscriber = () => void;
@@ -96,6 +642,56 @@ export interface ParseOptions {
   maxFileSize?: number;
   maxNestingDepth?: number;
   fileName?: string;
+  /** Input format. Sniffed from the input (JSON or NDJSON) when omitted. */
+  format?: DataFormat;
+  /** CSV field delimiter. Sniffed from the input when omitted. */
+  delimiter?: string;
+  /** Whether the first CSV row holds column names. Detected when omitted. */
+  hasHeader?: boolean;
+  /** NDJSON only: collect malformed lines as rejected records instead of throwing. */
+  skipInvalidLines?: boolean;
+  /**
+   * JSON only: location of the record array inside a wrapping object, as a
+   * JSON Pointer (`/data/items`) or dot-path (`data.items`). Detected when
+   * omitted and the document holds exactly one array of objects.
+   */
+  recordPath?: string;
+  /**
+   * Adds a `key-present` rule to every column found in the first record, so
+   * records lacking one of those keys are reported.
+   */
+  flagMissingKeys?: boolean;
+  /**
+   * Adds a `key-absent` rule to every column first seen after the first
+   * record, so records carrying such a key are reported.
+   */
+  flagUnexpectedKeys?: boolean;
+  /**
+   * Declared columns, in order, ahead of any undeclared ones. Declared types
+   * replace inferred ones; see `DataSchema` for missing and extra keys.
+   */
+  schema?: DataSchema;
+  /**
+   * Locale of numeric and date text. CSV fields are read as numbers in its
+   * notation, dates in its short format infer as `date`, and every column
+   * carries it so validation reads text the same way. ISO dates are always
+   * accepted. Without it, text is read as `Number()` and `new Date()` do.
+   */
+  locale?: string;
+}
+
+export interface StreamLoadOptions {
+  fileName?: string;
+  /** Expected size in bytes, used for progress reporting. */
+  totalBytes?: number | null;
+  format?: DataFormat;
+  recordPath?: string;
+}
+
+export interface StreamParseOptions extends ParseOptions {
+  totalBytes?: number | null;
+  onProgress?: (progress: LoadProgress) => void;
+  signal?: AbortSignal;
 }
 
 export class DataValidatorError extends Error {
@@ -108,29 +704,89 @@ export class DataValidatorError extends Error {
   }
 }
 
+/** An excerpt of the source line an error points at. */
+export interface SourceSnippet {
+  text: string;
+  /** 0-based index in `text` of the offending character. */
+  pointer: number;
+}
+
+export interface ParseErrorLocation {
+  /** 1-based row number in the source table (CSV only, header included). */
+  row?: number;
+  /** 1-based line number in the source text. */
+  line?: number;
+  /** 1-based column, in characters, within `line`. */
+  column?: number;
+  /** 0-based byte offset from the start of the input (after any BOM). */
+  offset?: number;
+  snippet?: SourceSnippet;
+  /** 0-based index of the record the error belongs to. */
+  recordIndex?: number;
+}
+
 export class ParseError extends DataValidatorError {
-  constructor(message: string) {
+  public readonly row?: number;
+  public readonly line?: number;
+  public readonly column?: number;
+  public readonly offset?: number;
+  public readonly snippet?: SourceSnippet;
+  public readonly recordIndex?: number;
+
+  constructor(message: string, location: ParseErrorLocation = {}) {
     super("PARSE_ERROR", message);
     this.name = "ParseError";
+    this.row = location.row;
+    this.line = location.line;
+    this.column = location.column;
+    this.offset = location.offset;
+    this.snippet = location.snippet;
+    this.recordIndex = location.recordIndex;
+  }
+}
+
+/**
+ * Thrown when a wrapped JSON document does not say which array holds the
+ * records. `candidates` lists the arrays of objects that could be loaded
+ * with `recordPath`.
+ */
+export class RecordPathError extends ParseError {
+  public readonly candidates: RecordArrayCandidate[];
+
+  constructor(message: string, candidates: RecordArrayCandidate[]) {
+    super(message);
+    this.name = "RecordPathError";
+    this.candidates = candidates;
   }
 }
 
 export class ValidationFailedError extends DataValidatorError {
   public readonly cellErrors: ValidationError[];
+  public readonly datasetErrors: DatasetError[];
 
-  constructor(message: string, cellErrors: ValidationError[]) {
+  constructor(
+    message: string,
+    cellErrors: ValidationError[],
+    datasetErrors: DatasetError[] = [],
+  ) {
     super("VALIDATION_ERROR", message);
     this.name = "ValidationFailedError";
     this.cellErrors = cellErrors;
+    this.datasetErrors = datasetErrors;
   }
 }
 
 export class FileSizeError extends DataValidatorError {
+  public readonly size: number;
+  public readonly maxSize: number;
+
   constructor(size: number, maxSize: number) {
     super(
       "FILE_SIZE_ERROR",
       `File size ${(size / 1024 / 1024).toFixed(2)}MB exceeds maximum allowed size of ${(maxSize / 1024 / 1024).toFixed(2)}MB`,
     );
     this.name = "FileSizeError";
+    this.size = size;
+    this.maxSize = maxSize;
   }
 }
@@ -0,0 +1,106 @@
+import type { Row, RowRule } from "./types";
+
+/**
+ * Groups row positions by their values in the columns of a `unique` rule, so
+ * an edit moves one row between groups instead of rescanning every row.
+ * Rows with an empty key cell are left out: like SQL `NULL`s, they never
+ * collide.
+ */
+export class UniqueIndex {
+  private groups = new Map<string, Set<number>>();
+  private keys = new Map<number, string>();
+  /**
+   * The lowest positions of a group, one more than the last `limit` asked
+   * for, kept until the group changes.
+   */
+  private lowest = new Map<string, number[]>();
+
+  constructor(
+    readonly rule: RowRule,
+    rows: Row[],
+  ) {
+    rows.forEach((row, position) => this.insert(position, row));
+  }
+
+  /**
+   * Re-files the row at `position` after its cells changed and returns the
+   * positions whose duplicates changed with it: the rows it left and joined.
+   */
+  update(position: number, row: Row): number[] {
+    const previous = this.keys.get(position);
+    const key = this.keyOf(row);
+    if (previous === key) return [];
+
+    const affected: number[] = [];
+    if (previous !== undefined) {
+      const group = this.groups.get(previous)!;
+      group.delete(position);
+      this.lowest.delete(previous);
+      if (group.size === 0) this.groups.delete(previous);
+      affected.push(...group);
+      this.keys.delete(position);
+    }
+    this.insert(position, row);
+    if (key !== undefined) affected.push(...this.groups.get(key)!);
+    return affected;
+  }
+
+  /**
+   * The other rows with the same key: how many there are and the lowest
+   * `limit` of their positions, in order, whatever order they were filed in.
+   */
+  duplicatesOf(
+    position: number,
+    limit: number,
+  ): { count: number; positions: number[] } {
+    const key = this.keys.get(position);
+    const group = key === undefined ? undefined : this.groups.get(key);
+    if (!group || group.size < 2) return { count: 0, positions: [] };
+
+    let lowest = this.lowest.get(key!);
+    if (!lowest || lowest.length < Math.min(limit + 1, group.size)) {
+      lowest = lowestOf(group, limit + 1);
+      this.lowest.set(key!, lowest);
+    }
+    return {
+      count: group.size - 1,
+      positions: lowest.filter((other) => other !== position).slice(0, limit),
+    };
+  }
+
+  private insert(position: number, row: Row): void {
+    const key = this.keyOf(row);
+    if (key === undefined) return;
+    this.keys.set(position, key);
+    this.lowest.delete(key);
+    const group = this.groups.get(key);
+    if (group) group.add(position);
+    else this.groups.set(key, new Set([position]));
+  }
+
+  /** `JSON.stringify` keeps `1` and `"1"` apart, as the profiles do. */
+  private keyOf(row: Row): string | undefined {
+    const values = this.rule.columns.map((key) => row.cells[key]);
+    const empty = values.some(
+      (value) =>
+        value === null ||
+        value === undefined ||
+        value === "" ||
+        (Array.isArray(value) && value.length === 0),
+    );
+    return empty ? undefined : JSON.stringify(values);
+  }
+}
+
+/** The `count` lowest of `positions`, in order. */
+function lowestOf(positions: Iterable<number>, count: number): number[] {
+  const lowest: number[] = [];
+  for (const position of positions) {
+    if (lowest.length === count && position > lowest[count - 1]!) continue;
+    let i = lowest.length;
+    while (i > 0 && lowest[i - 1]! > position) i--;
+    lowest.splice(i, 0, position);
+    if (lowest.length > count) lowest.pop();
+  }
+  return lowest;
+}
@@ -1,27 +1,114 @@
 import type {
+  AsyncCustomRule,
   CellValue,
   CellType,
   Column,
+  ComparisonOperator,
+  CustomRule,
+  CustomRules,
+  DataSet,
+  DatasetError,
+  DatasetRule,
+  MessageCatalogue,
   Row,
+  RowRule,
+  RuleCondition,
   ValidationError,
+  ValidationErrorCode,
   ValidationRule,
 } from "./types";
-import { CellTypes, ValidationMessages, ValidationRuleTypes } from "./types";
+import {
+  CellTypes,
+  DatasetRuleTypes,
+  DataValidatorError,
+  RowRuleTypes,
+  Severities,
+  ValidationMessages,
+  ValidationRuleTypes,
+} from "./types";
+import {
+  countDigits,
+  currencyScale,
+  isDateTime,
+  isEmail,
+  isTime,
+  isUrl,
+  isUuid,
+  parseCurrencyAmount,
+} from "./formats";
+import { normalizeNumber, readDate, readNumber } from "./locale";
+import { DatasetIndex } from "./dataset-index";
+import { fillTemplate } from "./messages";
+import { UniqueIndex } from "./unique";
+
+/** How many of the other rows a `unique` error names. */
+const MAX_DUPLICATE_REFERENCES = 10;
+
+/** A failed rule, before `validateCell` gives it the rule's severity. */
+type RuleFailure = Omit<ValidationError, "severity">;
+
+/** A failed row or dataset rule, before it is localized and reported. */
+interface Failure {
+  code: ValidationErrorCode;
+  english: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * How the `COMPARE_*` and `SUM_*` codes name each operator, so catalogues
+ * can word every comparison in their own grammar.
+ */
+const OPERATOR_CODES = {
+  "<": "LT",
+  "<=": "LTE",
+  ">": "GT",
+  ">=": "GTE",
+  "==": "EQ",
+  "!=": "NE",
+} as const satisfies Record<ComparisonOperator, string>;
+
+/** Builds the error for a value that does not fit its column's type. */
+type TypeErrorOf = (
+  code: ValidationErrorCode,
+  english: string,
+  params?: Record<string, unknown>,
+) => ValidationError[];
 
+/**
+ * `value` is `undefined` when the record does not contain the column's key.
+ * Rules with a `when` condition only run given the `row`; `columns` tells
+ * how to read the cells the condition compares. Messages come from
+ * `messages` where it has the error's code.
+ */
 export function validateCell(
-  value: CellValue,
+  value: CellValue | undefined,
   column: Column,
+  row?: Row,
+  customRules: CustomRules = {},
+  columns: Column[] = [column],
+  messages: MessageCatalogue = {},
 ): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  const typeErrors = validateType(value, column.type, column.key);
+  const typeErrors = validateType(value, column, messages);
   errors.push(...typeErrors);
 
   if (column.validation) {
     for (const rule of column.validation) {
-      const ruleError = validateRule(value, rule, column.key);
+      if (!ruleApplies(rule, row, columns)) continue;
+      const ruleError = validateRule(
+        value,
+        rule,
+        column,
+        row,
+        customRules,
+        messages,
+      );
       if (ruleError) {
-        errors.push(ruleError);
+        errors.push({
+          ...ruleError,
+          severity: rule.severity ?? Severities.ERROR,
+        });
       }
     }
   }
@@ -32,48 +119,423 @@ export function validateCell(
 export function validateRow(
   row: Row,
   columns: Column[],
+  rowRules: RowRule[] = [],
+  customRules: CustomRules = {},
+  messages: MessageCatalogue = {},
 ): Record<string, ValidationError[]> {
   const errors: Record<string, ValidationError[]> = {};
 
   for (const column of columns) {
-    const value = row.cells[column.key] ?? null;
-    const cellErrors = validateCell(value, column);
+    const cellErrors = validateCell(
+      row.cells[column.key],
+      column,
+      row,
+      customRules,
+      columns,
+      messages,
+    );
     if (cellErrors.length > 0) {
       errors[column.key] = cellErrors;
     }
   }
 
+  for (const rule of rowRules) {
+    for (const error of validateRowRule(row, rule, columns, messages)) {
+      (errors[error.column] ??= []).push(error);
+    }
+  }
+
   return errors;
 }
 
-export function validateAllRows(rows: Row[], columns: Column[]): Row[] {
-  return rows.map((row) => {
-    const errors = validateRow(row, columns);
+export function validateAllRows(
+  rows: Row[],
+  columns: Column[],
+  rowRules: RowRule[] = [],
+  customRules: CustomRules = {},
+  messages: MessageCatalogue = {},
+): Row[] {
+  const validated = rows.map((row) => {
+    const errors = validateRow(row, columns, rowRules, customRules, messages);
     return { ...row, errors };
   });
+  return validateUnique(validated, columns, rowRules, messages);
+}
+
+/**
+ * Checks the `unique` row rules, which compare rows with each other and so
+ * are skipped by `validateRow`. Other errors are kept as they are.
+ */
+export function validateUnique(
+  rows: Row[],
+  columns: Column[],
+  rowRules: RowRule[],
+  messages: MessageCatalogue = {},
+): Row[] {
+  const indexes = buildUniqueIndexes(rows, rowRules);
+  if (indexes.length === 0) return rows;
+  return rows.map((row, position) =>
+    withUniqueErrors(
+      row,
+      uniqueErrors(rows, position, indexes, columns, messages),
+    ),
+  );
+}
+
+/** Indexes `rows` for each `unique` rule, reusing those in `previous`. */
+export function buildUniqueIndexes(
+  rows: Row[],
+  rowRules: RowRule[],
+  previous: UniqueIndex[] = [],
+): UniqueIndex[] {
+  return rowRules
+    .filter((rule) => rule.type === RowRuleTypes.UNIQUE)
+    .map(
+      (rule) =>
+        previous.find((index) => index.rule === rule) ??
+        new UniqueIndex(rule, rows),
+    );
+}
+
+/** The `unique` errors of the row at `position`, one per reported column. */
+export function uniqueErrors(
+  rows: Row[],
+  position: number,
+  indexes: UniqueIndex[],
+  columns: Column[],
+  messages: MessageCatalogue = {},
+): ValidationError[] {
+  return indexes.flatMap((index) => {
+    const { count, positions } = index.duplicatesOf(
+      position,
+      MAX_DUPLICATE_REFERENCES,
+    );
+    if (count === 0) return [];
+
+    const { rule } = index;
+    const labels = rule.columns.map(
+      (key) => columns.find((c) => c.key === key)?.label ?? key,
+    );
+    const params = {
+      fields: labels,
+      rows: positions.map((p) => p + 1),
+      count,
+    };
+    const english = ValidationMessages.UNIQUE(labels, params.rows, count);
+    const duplicates = positions.map((p) => rows[p]!.id);
+    return reportedColumns(rule).map((column) => {
+      const value = rows[position]!.cells[column];
+      return {
+        rule: rule.type,
+        code: "UNIQUE",
+        message:
+          rule.message ?? localize(messages, "UNIQUE", english, value, params),
+        column,
+        severity: rule.severity ?? Severities.ERROR,
+        value,
+        params,
+        duplicates,
+      };
+    });
+  });
+}
+
+/** Replaces the row's `unique` errors with `unique`. */
+export function withUniqueErrors(row: Row, unique: ValidationError[]): Row {
+  const errors: Record<string, ValidationError[]> = {};
+  for (const [key, columnErrors] of Object.entries(row.errors)) {
+    const kept = columnErrors.filter(
+      (error) => error.rule !== RowRuleTypes.UNIQUE,
+    );
+    if (kept.length > 0) errors[key] = kept;
+  }
+  for (const error of unique) (errors[error.column] ??= []).push(error);
+  return { ...row, errors };
+}
+
+/**
+ * Re-checks only the columns in `keys`, cell rules and row rules alike, and
+ * keeps the row's other errors as they are.
+ */
+export function revalidateColumns(
+  row: Row,
+  columns: Column[],
+  rowRules: RowRule[],
+  keys: Set<string>,
+  customRules: CustomRules = {},
+  messages: MessageCatalogue = {},
+): Record<string, ValidationError[]> {
+  const errors = { ...row.errors };
+  for (const key of keys) delete errors[key];
+
+  for (const column of columns) {
+    if (!keys.has(column.key)) continue;
+    const cellErrors = validateCell(
+      row.cells[column.key],
+      column,
+      row,
+      customRules,
+      columns,
+      messages,
+    );
+    if (cellErrors.length > 0) errors[column.key] = cellErrors;
+  }
+
+  for (const rule of rowRules) {
+    if (!reportedColumns(rule).some((key) => keys.has(key))) continue;
+    for (const error of validateRowRule(row, rule, columns, messages)) {
+      if (keys.has(error.column)) (errors[error.column] ??= []).push(error);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Re-checks the columns in `keys` of every row, `unique` included, and
+ * keeps the rows' other errors. When only the rules reporting on `keys`
+ * changed, the result is the same as that of `validateAllRows`.
+ */
+export function revalidateRows(
+  rows: Row[],
+  columns: Column[],
+  rowRules: RowRule[],
+  keys: Set<string>,
+  customRules: CustomRules = {},
+  messages: MessageCatalogue = {},
+  indexes: UniqueIndex[] = buildUniqueIndexes(rows, rowRules),
+): Row[] {
+  const revalidated = rows.map((row) => ({
+    ...row,
+    errors: revalidateColumns(
+      row,
+      columns,
+      rowRules,
+      keys,
+      customRules,
+      messages,
+    ),
+  }));
+
+  // `revalidateColumns` dropped the `unique` errors of `keys`; only rows
+  // with duplicates have any to put back.
+  const reportsOnKeys = indexes.some((index) =>
+    reportedColumns(index.rule).some((key) => keys.has(key)),
+  );
+  if (!reportsOnKeys) return revalidated;
+  revalidated.forEach((row, position) => {
+    const unique = uniqueErrors(
+      revalidated,
+      position,
+      indexes,
+      columns,
+      messages,
+    );
+    if (unique.length > 0) {
+      revalidated[position] = withUniqueErrors(row, unique);
+    }
+  });
+  return revalidated;
+}
+
+/**
+ * Whether `rule` runs on `row`: it has no `when`, or all of its conditions
+ * hold. Conditional rules are skipped without a row to test.
+ */
+export function ruleApplies(
+  rule: ValidationRule,
+  row: Row | undefined,
+  columns: Column[],
+): boolean {
+  const conditions = conditionsOf(rule);
+  if (conditions.length === 0) return true;
+  if (!row) return false;
+  return conditions.every((condition) =>
+    conditionHolds(condition, row, columns),
+  );
+}
+
+/** Throws when `name` belongs to a built-in rule, which would always win. */
+export function assertCustomRuleName(name: string): void {
+  const builtIns: string[] = Object.values(ValidationRuleTypes);
+  if (builtIns.includes(name)) {
+    throw new DataValidatorError(
+      "INVALID_RULE",
+      `"${name}" is a built-in rule type and cannot be registered`,
+    );
+  }
+}
+
+/** Merges per-column rules from `DataStoreOptions.validationRules` into the columns. */
+export function applyValidationRules(
+  columns: Column[],
+  validationRules: Record<string, ValidationRule[]>,
+): Column[] {
+  return columns.map((column) => {
+    const rules = validationRules[column.key];
+    if (!rules) return column;
+    return {
+      ...column,
+      validation: [...(column.validation ?? []), ...rules],
+    };
+  });
+}
+
+/** Applies the configured rules to a freshly parsed data set and validates every row. */
+export function validateDataSet(
+  dataSet: DataSet,
+  validationRules: Record<string, ValidationRule[]>,
+  rowRules: RowRule[] = [],
+  customRules: CustomRules = {},
+  messages: MessageCatalogue = {},
+  datasetRules: DatasetRule[] = [],
+): DataSet {
+  const columns = applyValidationRules(dataSet.columns, validationRules);
+  const rows = validateAllRows(
+    dataSet.rows,
+    columns,
+    rowRules,
+    customRules,
+    messages,
+  );
+  return {
+    ...dataSet,
+    columns,
+    rows,
+    datasetErrors: datasetErrors(rows, columns, datasetRules, messages),
+  };
+}
+
+/** Checks the dataset rules against all of `rows`. */
+export function datasetErrors(
+  rows: Row[],
+  columns: Column[],
+  datasetRules: DatasetRule[],
+  messages: MessageCatalogue = {},
+): DatasetError[] {
+  return datasetIndexErrors(
+    buildDatasetIndexes(rows, columns, datasetRules),
+    rows.length,
+    columns,
+    messages,
+  );
+}
+
+/** Indexes `rows` for each dataset rule, reusing those in `previous`. */
+export function buildDatasetIndexes(
+  rows: Row[],
+  columns: Column[],
+  datasetRules: DatasetRule[],
+  previous: DatasetIndex[] = [],
+): DatasetIndex[] {
+  return datasetRules.map((rule) => {
+    const built = previous.find((index) => index.rule === rule);
+    if (built) return built;
+    const column = columns.find((c) => c.key === rule.column);
+    return new DatasetIndex(rule, rows, (value) => {
+      const number = comparable(value, column);
+      return typeof number === "number" ? number : null;
+    });
+  });
 }
 
+/** The errors of the dataset rules `indexes` were built for. */
+export function datasetIndexErrors(
+  indexes: DatasetIndex[],
+  rowCount: number,
+  columns: Column[],
+  messages: MessageCatalogue = {},
+): DatasetError[] {
+  return indexes.flatMap((index) => {
+    const { rule } = index;
+    const failure = validateDatasetRule(index, rowCount, columns);
+    if (failure === null) return [];
+    const { code, english, params } = failure;
+    return [
+      {
+        rule: rule.type,
+        code,
+        message:
+          rule.message ?? localize(messages, code, english, undefined, params),
+        ...(rule.column !== undefined && { column: rule.column }),
+        params,
+        severity: rule.severity ?? Severities.ERROR,
+      },
+    ];
+  });
+}
+
+/** Checks `value` against `type`, which is the column's own or its item type. */
 function validateType(
-  value: CellValue,
-  type: CellType,
-  columnKey: string,
+  value: CellValue | undefined,
+  column: Column,
+  messages: MessageCatalogue,
+  type: CellType = column.type,
 ): ValidationError[] {
-  if (value === null) return [];
+  if (value === null || value === undefined) return [];
+
+  const typeError: TypeErrorOf = (code, english, params) => [
+    {
+      rule: "type",
+      code,
+      message: localize(messages, code, english, value, params),
+      column: column.key,
+      severity: Severities.ERROR,
+      value,
+      ...(params && { params }),
+    },
+  ];
 
   switch (type) {
     case CellTypes.NUMBER: {
-      if (typeof value === "number") return [];
-      if (typeof value === "string") {
-        const num = Number(value);
-        if (!isNaN(num) && value.trim() !== "") return [];
+      const num =
+        typeof value === "string" ? readNumber(value, column.locale) : value;
+      if (typeof num === "number") return [];
+      return typeError("EXPECTED_NUMBER", ValidationMessages.EXPECTED_NUMBER);
+    }
+
+    case CellTypes.INTEGER: {
+      const num =
+        typeof value === "string" ? readNumber(value, column.locale) : value;
+      if (typeof num === "number" && Number.isInteger(num)) return [];
+      return typeError("EXPECTED_INTEGER", ValidationMessages.EXPECTED_INTEGER);
+    }
+
+    case CellTypes.DECIMAL: {
+      const text =
+        typeof value === "string" && column.locale
+          ? normalizeNumber(value, column.locale)
+          : value;
+      const digits =
+        typeof text === "number" || typeof text === "string"
+          ? countDigits(text)
+          : null;
+      if (!digits) {
+        return typeError(
+          "EXPECTED_DECIMAL",
+          ValidationMessages.EXPECTED_DECIMAL,
+        );
+      }
+      return validateDigits(digits, column.precision, column.scale, typeError);
+    }
+
+    case CellTypes.CURRENCY: {
+      const amount =
+        typeof value === "string"
+          ? parseCurrencyAmount(value, column.locale)
+          : value;
+      if (typeof amount !== "number" || !isFinite(amount)) {
+        return typeError(
+          "EXPECTED_CURRENCY",
+          ValidationMessages.EXPECTED_CURRENCY,
+        );
       }
-      return [
-        {
-          rule: ValidationRuleTypes.REQUIRED,
-          message: ValidationMessages.EXPECTED_NUMBER,
-          column: columnKey,
-        },
-      ];
+      return validateDigits(
+        countDigits(amount)!,
+        undefined,
+        currencyScale(column.currency),
+        typeError,
+      );
     }
 
     case CellTypes.BOOLEAN: {
@@ -83,27 +545,82 @@ function validateType(
         if (["true", "false", "yes", "no", "1", "0"].includes(lower))
           return [];
       }
-      return [
-        {
-          rule: ValidationRuleTypes.REQUIRED,
-          message: ValidationMessages.EXPECTED_BOOLEAN,
-          column: columnKey,
-        },
-      ];
+      return typeError("EXPECTED_BOOLEAN", ValidationMessages.EXPECTED_BOOLEAN);
     }
 
     case CellTypes.DATE: {
-      if (typeof value === "string") {
-        const date = new Date(value);
-        if (!isNaN(date.getTime())) return [];
+      if (typeof value === "string" && readDate(value, column)) return [];
+      if (column.dateFormat) {
+        return typeError(
+          "EXPECTED_DATE_FORMAT",
+          ValidationMessages.EXPECTED_DATE_FORMAT(column.dateFormat),
+          { format: column.dateFormat },
+        );
+      }
+      return typeError("EXPECTED_DATE", ValidationMessages.EXPECTED_DATE);
+    }
+
+    case CellTypes.DATETIME:
+      if (column.dateFormat) {
+        if (typeof value === "string" && readDate(value, column)) return [];
+        return typeError(
+          "EXPECTED_DATE_FORMAT",
+          ValidationMessages.EXPECTED_DATE_FORMAT(column.dateFormat),
+          { format: column.dateFormat },
+        );
+      }
+      if (typeof value === "string" && isDateTime(value)) return [];
+      return typeError(
+        "EXPECTED_DATETIME",
+        ValidationMessages.EXPECTED_DATETIME,
+      );
+
+    case CellTypes.TIME:
+      if (typeof value === "string" && isTime(value)) return [];
+      return typeError("EXPECTED_TIME", ValidationMessages.EXPECTED_TIME);
+
+    case CellTypes.EMAIL:
+      if (typeof value === "string" && isEmail(value)) return [];
+      return typeError("EXPECTED_EMAIL", ValidationMessages.EXPECTED_EMAIL);
+
+    case CellTypes.URL:
+      if (typeof value === "string" && isUrl(value)) return [];
+      return typeError("EXPECTED_URL", ValidationMessages.EXPECTED_URL);
+
+    case CellTypes.UUID:
+      if (typeof value === "string" && isUuid(value)) return [];
+      return typeError("EXPECTED_UUID", ValidationMessages.EXPECTED_UUID);
+
+    case CellTypes.ENUM:
+      if (Array.isArray(value) || !column.values) return [];
+      if (column.values.includes(value)) return [];
+      return typeError("ENUM", ValidationMessages.ENUM(column.values), {
+        values: column.values,
+      });
+
+    case CellTypes.LIST: {
+      if (!Array.isArray(value)) {
+        return typeError("EXPECTED_LIST", ValidationMessages.EXPECTED_LIST);
       }
-      return [
-        {
-          rule: ValidationRuleTypes.REQUIRED,
-          message: ValidationMessages.EXPECTED_DATE,
-          column: columnKey,
-        },
-      ];
+      for (let i = 0; i < value.length; i++) {
+        const [itemError] = validateType(
+          value[i]!,
+          column,
+          messages,
+          column.itemType ?? CellTypes.STRING,
+        );
+        if (itemError) {
+          return typeError(
+            "ITEM",
+            ValidationMessages.ITEM(i, itemError.message),
+            {
+              index: i + 1,
+              message: itemError.message,
+            },
+          );
+        }
+      }
+      return [];
     }
 
     case CellTypes.STRING:
@@ -112,55 +629,94 @@ function validateType(
   }
 }
 
+/**
+ * Checks decimal digits the way SQL `DECIMAL(precision, scale)` does: at
+ * most `scale` digits after the point and `precision - scale` before it.
+ */
+function validateDigits(
+  digits: { integer: number; fraction: number },
+  precision: number | undefined,
+  scale: number | undefined,
+  typeError: TypeErrorOf,
+): ValidationError[] {
+  if (scale !== undefined && digits.fraction > scale) {
+    return typeError("SCALE", ValidationMessages.SCALE(scale), { scale });
+  }
+  if (
+    precision !== undefined &&
+    digits.integer + (scale ?? digits.fraction) > precision
+  ) {
+    return typeError("PRECISION", ValidationMessages.PRECISION(precision), {
+      precision,
+    });
+  }
+  return [];
+}
+
 function validateRule(
-  value: CellValue,
+  value: CellValue | undefined,
   rule: ValidationRule,
-  columnKey: string,
-): ValidationError | null {
+  column: Column,
+  row: Row | undefined,
+  customRules: CustomRules,
+  messages: MessageCatalogue,
+): RuleFailure | null {
+  const fail = (
+    code: ValidationErrorCode,
+    english: string,
+    params?: Record<string, unknown>,
+  ): RuleFailure => ({
+    rule: rule.type,
+    code,
+    message: rule.message ?? localize(messages, code, english, value, params),
+    column: column.key,
+    value,
+    ...(params && { params }),
+  });
+
   switch (rule.type) {
     case ValidationRuleTypes.REQUIRED:
-      if (value === null || value === undefined || value === "") {
-        return {
-          rule: ValidationRuleTypes.REQUIRED,
-          message: rule.message ?? ValidationMessages.REQUIRED,
-          column: columnKey,
-        };
+      if (
+        value === null ||
+        value === undefined ||
+        value === "" ||
+        (Array.isArray(value) && value.length === 0)
+      ) {
+        return fail("REQUIRED", ValidationMessages.REQUIRED);
       }
       return null;
 
-    case ValidationRuleTypes.MIN:
-      if (typeof value === "number" && typeof rule.value === "number") {
-        if (value < rule.value) {
-          return {
-            rule: ValidationRuleTypes.MIN,
-            message: rule.message ?? ValidationMessages.MIN(rule.value),
-            column: columnKey,
-          };
+    case ValidationRuleTypes.MIN: {
+      const number = numericValue(value, column);
+      if (number !== null && typeof rule.value === "number") {
+        if (number < rule.value) {
+          return fail("MIN", ValidationMessages.MIN(rule.value), {
+            min: rule.value,
+          });
         }
       }
       return null;
+    }
 
-    case ValidationRuleTypes.MAX:
-      if (typeof value === "number" && typeof rule.value === "number") {
-        if (value > rule.value) {
-          return {
-            rule: ValidationRuleTypes.MAX,
-            message: rule.message ?? ValidationMessages.MAX(rule.value),
-            column: columnKey,
-          };
+    case ValidationRuleTypes.MAX: {
+      const number = numericValue(value, column);
+      if (number !== null && typeof rule.value === "number") {
+        if (number > rule.value) {
+          return fail("MAX", ValidationMessages.MAX(rule.value), {
+            max: rule.value,
+          });
         }
       }
       return null;
+    }
 
     case ValidationRuleTypes.PATTERN:
       if (typeof value === "string" && typeof rule.value === "string") {
         const regex = new RegExp(rule.value);
         if (!regex.test(value)) {
-          return {
-            rule: ValidationRuleTypes.PATTERN,
-            message: rule.message ?? ValidationMessages.PATTERN,
-            column: columnKey,
-          };
+          return fail("PATTERN", ValidationMessages.PATTERN, {
+            pattern: rule.value,
+          });
         }
       }
       return null;
@@ -168,12 +724,9 @@ function validateRule(
     case ValidationRuleTypes.MIN_LENGTH:
       if (typeof value === "string" && typeof rule.value === "number") {
         if (value.length < rule.value) {
-          return {
-            rule: ValidationRuleTypes.MIN_LENGTH,
-            message:
-              rule.message ?? ValidationMessages.MIN_LENGTH(rule.value),
-            column: columnKey,
-          };
+          return fail("MIN_LENGTH", ValidationMessages.MIN_LENGTH(rule.value), {
+            min: rule.value,
+          });
         }
       }
       return null;
@@ -181,17 +734,506 @@ function validateRule(
     case ValidationRuleTypes.MAX_LENGTH:
       if (typeof value === "string" && typeof rule.value === "number") {
         if (value.length > rule.value) {
-          return {
-            rule: ValidationRuleTypes.MAX_LENGTH,
-            message:
-              rule.message ?? ValidationMessages.MAX_LENGTH(rule.value),
-            column: columnKey,
-          };
+          return fail("MAX_LENGTH", ValidationMessages.MAX_LENGTH(rule.value), {
+            max: rule.value,
+          });
         }
       }
       return null;
 
+    case ValidationRuleTypes.MIN_ITEMS:
+      if (Array.isArray(value) && typeof rule.value === "number") {
+        if (value.length < rule.value) {
+          return fail("MIN_ITEMS", ValidationMessages.MIN_ITEMS(rule.value), {
+            min: rule.value,
+          });
+        }
+      }
+      return null;
+
+    case ValidationRuleTypes.MAX_ITEMS:
+      if (Array.isArray(value) && typeof rule.value === "number") {
+        if (value.length > rule.value) {
+          return fail("MAX_ITEMS", ValidationMessages.MAX_ITEMS(rule.value), {
+            max: rule.value,
+          });
+        }
+      }
+      return null;
+
+    case ValidationRuleTypes.UNIQUE_ITEMS:
+      if (Array.isArray(value) && new Set(value).size !== value.length) {
+        return fail("UNIQUE_ITEMS", ValidationMessages.UNIQUE_ITEMS);
+      }
+      return null;
+
+    case ValidationRuleTypes.ITEMS:
+      if (Array.isArray(value) && rule.rules) {
+        for (let i = 0; i < value.length; i++) {
+          for (const itemRule of rule.rules) {
+            const itemError = validateRule(
+              value[i]!,
+              itemRule,
+              column,
+              row,
+              customRules,
+              messages,
+            );
+            if (itemError) {
+              return fail(
+                "ITEM",
+                ValidationMessages.ITEM(i, itemError.message),
+                { index: i + 1, message: itemError.message },
+              );
+            }
+          }
+        }
+      }
+      return null;
+
+    case ValidationRuleTypes.KEY_PRESENT:
+      if (value === undefined) {
+        return fail("MISSING_KEY", ValidationMessages.MISSING_KEY);
+      }
+      return null;
+
+    case ValidationRuleTypes.KEY_ABSENT:
+      if (value !== undefined) {
+        return fail("UNEXPECTED_KEY", ValidationMessages.UNEXPECTED_KEY);
+      }
+      return null;
+
+    case ValidationRuleTypes.ENUM:
+      if (
+        value !== null &&
+        value !== undefined &&
+        !Array.isArray(value) &&
+        rule.values &&
+        !rule.values.includes(value)
+      ) {
+        return fail("ENUM", ValidationMessages.ENUM(rule.values), {
+          values: rule.values,
+        });
+      }
+      return null;
+
+    default:
+      return validateCustomRule(
+        value,
+        rule,
+        column,
+        row,
+        customRules,
+        messages,
+      );
+  }
+}
+
+/**
+ * Runs a rule type registered in `customRules`. Unknown types pass, and
+ * asynchronous ones are left to `validateAsyncRules`.
+ */
+function validateCustomRule(
+  value: CellValue | undefined,
+  rule: ValidationRule,
+  column: Column,
+  row: Row | undefined,
+  customRules: CustomRules,
+  messages: MessageCatalogue,
+): RuleFailure | null {
+  const custom = hasOwn(customRules, rule.type)
+    ? customRules[rule.type]
+    : undefined;
+  if (!custom || custom.async || isEmpty(value)) return null;
+
+  const params = rule.params ?? {};
+  const result = custom.validate(value!, { column, row, params });
+  return customRuleError(result, value!, rule, custom, column, messages);
+}
+
+/** The column's rules that are registered as asynchronous custom rules. */
+export function asyncRulesOf(
+  column: Column,
+  customRules: CustomRules,
+): ValidationRule[] {
+  return (column.validation ?? []).filter(
+    (rule) => hasOwn(customRules, rule.type) && customRules[rule.type]!.async,
+  );
+}
+
+/**
+ * Runs `rules`, found with `asyncRulesOf`, on one non-empty cell. A validator that
+ * rejects is reported as an error unless `signal` was aborted, in which
+ * case the returned promise rejects too.
+ */
+export async function validateAsyncRules(
+  value: CellValue,
+  column: Column,
+  row: Row,
+  rules: ValidationRule[],
+  customRules: CustomRules,
+  signal: AbortSignal,
+  messages: MessageCatalogue = {},
+): Promise<ValidationError[]> {
+  const errors = await Promise.all(
+    rules.map(async (rule): Promise<ValidationError | null> => {
+      const severity = rule.severity ?? Severities.ERROR;
+      const custom = customRules[rule.type] as AsyncCustomRule<object>;
+      const params = rule.params ?? {};
+      try {
+        const result = await custom.validate(value, {
+          column,
+          row,
+          params,
+          signal,
+        });
+        const failure = customRuleError(
+          result,
+          value,
+          rule,
+          custom,
+          column,
+          messages,
+        );
+        return failure && { ...failure, severity };
+      } catch (error) {
+        if (signal.aborted) throw error;
+        const failed = { name: rule.type };
+        return {
+          rule: rule.type,
+          code: "ASYNC_FAILED",
+          message: localize(
+            messages,
+            "ASYNC_FAILED",
+            ValidationMessages.ASYNC_FAILED(rule.type),
+            value,
+            failed,
+          ),
+          column: column.key,
+          severity,
+          value,
+          params: failed,
+        };
+      }
+    }),
+  );
+  return errors.filter((error): error is ValidationError => error !== null);
+}
+
+function customRuleError(
+  result: boolean | string,
+  value: CellValue,
+  rule: ValidationRule,
+  custom: CustomRule<object> | AsyncCustomRule<object>,
+  column: Column,
+  messages: MessageCatalogue,
+): RuleFailure | null {
+  if (result === true) return null;
+
+  const params = rule.params ?? {};
+  const template =
+    typeof result === "string" ? result : (rule.message ?? custom.message);
+  return {
+    rule: rule.type,
+    code: "CUSTOM",
+    message:
+      template === undefined
+        ? localize(
+            messages,
+            "CUSTOM",
+            ValidationMessages.CUSTOM(rule.type),
+            value,
+            { name: rule.type, ...params },
+          )
+        : fillTemplate(template, { ...params, value }),
+    column: column.key,
+    value,
+    params,
+  };
+}
+
+/**
+ * The catalogue's template for `code`, filled from `params` and `value`,
+ * or `english` when the catalogue has none.
+ */
+function localize(
+  messages: MessageCatalogue,
+  code: ValidationErrorCode,
+  english: string,
+  value: CellValue | undefined,
+  params: Record<string, unknown> = {},
+): string {
+  const template = messages[code];
+  if (template === undefined) return english;
+  return fillTemplate(template, { ...params, value });
+}
+
+export function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/** The columns a row rule's errors are attached to. */
+export function reportedColumns(rule: RowRule): string[] {
+  if (rule.report) return rule.report;
+  return rule.type === RowRuleTypes.UNIQUE
+    ? rule.columns
+    : rule.columns.slice(0, 1);
+}
+
+/**
+ * Checks one row rule. A failure yields one error per reported column; cells
+ * that are empty or unreadable as their column's type are left to the cell
+ * rules, so `compare` passes over them.
+ */
+function validateRowRule(
+  row: Row,
+  rule: RowRule,
+  columns: Column[],
+  messages: MessageCatalogue,
+): ValidationError[] {
+  // `unique` compares rows with each other; see `validateUnique`.
+  if (rule.type === RowRuleTypes.UNIQUE) return [];
+  const [key, otherKey] = rule.columns;
+  if (key === undefined || otherKey === undefined) return [];
+  const column = columns.find((c) => c.key === key);
+  const other = columns.find((c) => c.key === otherKey);
+  const label = column?.label ?? key;
+  const otherLabel = other?.label ?? otherKey;
+
+  let failure: Failure | null = null;
+  switch (rule.type) {
+    case RowRuleTypes.COMPARE: {
+      const operator = rule.operator ?? "==";
+      const left = comparable(row.cells[key], column);
+      const right = comparable(row.cells[otherKey], other);
+      if (
+        left !== null &&
+        right !== null &&
+        typeof left === typeof right &&
+        !compare(left, right, operator)
+      ) {
+        const code = `COMPARE_${OPERATOR_CODES[operator]}` as const;
+        failure = {
+          code,
+          english: ValidationMessages[code](label, otherLabel),
+          params: { field: label, operator, other: otherLabel },
+        };
+      }
+      break;
+    }
+
+    case RowRuleTypes.REQUIRED_IF: {
+      const trigger = row.cells[otherKey];
+      const triggered = rule.values
+        ? !Array.isArray(trigger) &&
+          trigger !== undefined &&
+          rule.values.includes(trigger)
+        : !isEmpty(trigger);
+      if (triggered && isEmpty(row.cells[key])) {
+        failure = {
+          code: rule.values ? "REQUIRED_IF" : "REQUIRED_IF_FILLED",
+          english: ValidationMessages.REQUIRED_IF(
+            label,
+            otherLabel,
+            rule.values,
+          ),
+          params: { field: label, other: otherLabel, values: rule.values },
+        };
+      }
+      break;
+    }
+  }
+
+  if (failure === null) return [];
+  const { code, english, params } = failure;
+  return reportedColumns(rule).map((reported) => {
+    const value = row.cells[reported];
+    return {
+      rule: rule.type,
+      code,
+      message: rule.message ?? localize(messages, code, english, value, params),
+      column: reported,
+      severity: rule.severity ?? Severities.ERROR,
+      value,
+      params,
+    };
+  });
+}
+
+/**
+ * Checks one dataset rule against what its index knows. Like `compare`,
+ * `sum` passes over cells that are empty or unreadable as numbers, leaving
+ * them to the cell rules.
+ */
+function validateDatasetRule(
+  index: DatasetIndex,
+  count: number,
+  columns: Column[],
+): Failure | null {
+  const { rule } = index;
+  const key = rule.column;
+  const column = columns.find((c) => c.key === key);
+  const label = column?.label ?? key ?? "";
+
+  switch (rule.type) {
+    case DatasetRuleTypes.MIN_ROWS: {
+      const min = rule.value;
+      if (min === undefined || count >= min) return null;
+      return {
+        code: "MIN_ROWS",
+        english: ValidationMessages.MIN_ROWS(min, count),
+        params: { min, count },
+      };
+    }
+
+    case DatasetRuleTypes.MAX_ROWS: {
+      const max = rule.value;
+      if (max === undefined || count <= max) return null;
+      return {
+        code: "MAX_ROWS",
+        english: ValidationMessages.MAX_ROWS(max, count),
+        params: { max, count },
+      };
+    }
+
+    case DatasetRuleTypes.SUM: {
+      const total = rule.value;
+      if (key === undefined || total === undefined) return null;
+      const operator = rule.operator ?? "==";
+      // Rounded so that 0.1 + 0.2 adds up to 0.3.
+      const sum = Math.round(index.total * 1e9) / 1e9;
+      if (compare(sum, total, operator)) return null;
+      const code = `SUM_${OPERATOR_CODES[operator]}` as const;
+      return {
+        code,
+        english: ValidationMessages[code](label, total, sum),
+        params: { field: label, operator, total, sum },
+      };
+    }
+
+    case DatasetRuleTypes.CONTAINS: {
+      if (key === undefined || !rule.values) return null;
+      const missing = index.missing(rule.values);
+      if (missing.length === 0) return null;
+      return {
+        code: "CONTAINS",
+        english: ValidationMessages.CONTAINS(label, missing),
+        params: { field: label, values: missing },
+      };
+    }
+  }
+}
+
+export function isEmpty(
+  value: CellValue | undefined,
+): value is null | undefined | "" | [] {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export function conditionsOf(rule: ValidationRule): RuleCondition[] {
+  if (!rule.when) return [];
+  return Array.isArray(rule.when) ? rule.when : [rule.when];
+}
+
+function conditionHolds(
+  condition: RuleCondition,
+  row: Row,
+  columns: Column[],
+): boolean {
+  const cell = row.cells[condition.column];
+  if (condition.values) {
+    return (
+      !Array.isArray(cell) &&
+      cell !== undefined &&
+      condition.values.includes(cell)
+    );
+  }
+  if (condition.operator && condition.value !== undefined) {
+    const column = columns.find((c) => c.key === condition.column);
+    const left = comparable(cell, column);
+    const right = comparable(condition.value, column);
+    return (
+      left !== null &&
+      right !== null &&
+      typeof left === typeof right &&
+      compare(left, right, condition.operator)
+    );
+  }
+  return !isEmpty(cell);
+}
+
+/**
+ * A cell as something `compare` can order: a number for numeric, currency
+ * and date columns, read the way their type check reads them, otherwise the
+ * value itself. `null` when there is nothing to compare.
+ */
+function comparable(
+  value: CellValue | undefined,
+  column: Column | undefined,
+): number | string | boolean | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (Array.isArray(value)) return null;
+  if (typeof value !== "string") return value;
+
+  switch (column?.type) {
+    case CellTypes.NUMBER:
+    case CellTypes.INTEGER:
+    case CellTypes.DECIMAL:
+      return readNumber(value, column.locale);
+    case CellTypes.CURRENCY:
+      return parseCurrencyAmount(value, column.locale);
+    case CellTypes.DATE:
+    case CellTypes.DATETIME:
+      return readDate(value, column)?.getTime() ?? null;
+    default:
+      return value;
+  }
+}
+
+/**
+ * A cell as a number for `min` and `max`: numbers as they are, and text in
+ * numeric and currency columns read the way their type check reads it.
+ */
+function numericValue(
+  value: CellValue | undefined,
+  column: Column,
+): number | null {
+  if (typeof value === "number") return value;
+  switch (column.type) {
+    case CellTypes.NUMBER:
+    case CellTypes.INTEGER:
+    case CellTypes.DECIMAL:
+    case CellTypes.CURRENCY: {
+      const number = comparable(value, column);
+      return typeof number === "number" ? number : null;
+    }
     default:
       return null;
   }
 }
+
+function compare<T extends number | string | boolean>(
+  left: T,
+  right: T,
+  operator: ComparisonOperator,
+): boolean {
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+  }
+}
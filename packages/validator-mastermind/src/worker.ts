@@ -0,0 +1,311 @@
+import { parse } from "./parse";
+import { parseStream } from "./stream";
+import {
+  assertCustomRuleName,
+  revalidateRows,
+  validateDataSet,
+} from "./validate";
+import {
+  type Column,
+  type CustomRules,
+  type DatasetRule,
+  type LoadProgress,
+  type MessageCatalogue,
+  type ParseErrorLocation,
+  type ParseOptions,
+  type RecordArrayCandidate,
+  type Row,
+  type RowRule,
+  type ValidationRule,
+  type WorkerEndpoint,
+  DataValidatorError,
+  FileSizeError,
+  ParseError,
+  RecordPathError,
+} from "./types";
+
+export type WorkerRequest =
+  | {
+      type: "parse";
+      input: string;
+      options: ParseOptions;
+      validationRules: Record<string, ValidationRule[]>;
+      rowRules: RowRule[];
+      datasetRules: DatasetRule[];
+      messages: MessageCatalogue;
+    }
+  | {
+      type: "parse-stream";
+      source: Blob | ReadableStream<Uint8Array>;
+      options: ParseOptions & { totalBytes?: number | null };
+      validationRules: Record<string, ValidationRule[]>;
+      rowRules: RowRule[];
+      datasetRules: DatasetRule[];
+      messages: MessageCatalogue;
+    }
+  | {
+      type: "validate";
+      rows: Row[];
+      columns: Column[];
+      rowRules: RowRule[];
+      /** Keys of the columns to re-check; the rows' other errors are kept. */
+      keys: string[];
+      messages: MessageCatalogue;
+    };
+
+type RequestMessage = WorkerRequest & { id: number };
+
+type ControlMessage = { id: number; type: "cancel" };
+
+type ResponseMessage =
+  | { id: number; type: "progress"; progress: LoadProgress }
+  | { id: number; type: "result"; value: unknown }
+  | { id: number; type: "error"; error: SerializedError };
+
+interface SerializedError {
+  name: string;
+  code: string;
+  message: string;
+  location?: ParseErrorLocation;
+  size?: number;
+  maxSize?: number;
+  candidates?: RecordArrayCandidate[];
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: DataValidatorError) => void;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+/**
+ * Serves parse and validation requests from a `DataStore` created with the
+ * `worker` option. Call it once from the worker entry point:
+ *
+ * ```ts
+ * exposeWorker(self);                  // Web Worker
+ * exposeWorker(parentPort!);           // Node worker_threads
+ * ```
+ *
+ * Functions cannot be posted to a worker, so custom rules the store uses
+ * are registered here as well: `exposeWorker(self, { customRules })`.
+ */
+export function exposeWorker(
+  endpoint: WorkerEndpoint,
+  options: { customRules?: CustomRules } = {},
+): void {
+  const customRules = { ...(options.customRules ?? {}) };
+  Object.keys(customRules).forEach(assertCustomRuleName);
+  const controllers = new Map<number, AbortController>();
+
+  listen(endpoint, async (message) => {
+    const request = message as RequestMessage | ControlMessage;
+
+    if (request.type === "cancel") {
+      controllers.get(request.id)?.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    controllers.set(request.id, controller);
+
+    try {
+      const value = await handleRequest(
+        request,
+        customRules,
+        controller.signal,
+        (progress) =>
+          endpoint.postMessage({ id: request.id, type: "progress", progress }),
+      );
+      endpoint.postMessage({ id: request.id, type: "result", value });
+    } catch (error) {
+      endpoint.postMessage({
+        id: request.id,
+        type: "error",
+        error: serializeError(error),
+      });
+    } finally {
+      controllers.delete(request.id);
+    }
+  });
+}
+
+/** Main-thread side of the protocol: turns worker round trips into promises. */
+export class WorkerClient {
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(private readonly endpoint: WorkerEndpoint) {
+    listen(endpoint, (message) =>
+      this.handleResponse(message as ResponseMessage),
+    );
+  }
+
+  request<T>(
+    request: WorkerRequest,
+    options: {
+      transfer?: Transferable[];
+      signal?: AbortSignal;
+      onProgress?: (progress: LoadProgress) => void;
+    } = {},
+  ): Promise<T> {
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        onProgress: options.onProgress,
+      });
+
+      options.signal?.addEventListener("abort", () => {
+        this.pending.delete(id);
+        this.endpoint.postMessage({ id, type: "cancel" });
+        reject(new DataValidatorError("ABORTED", "Loading was cancelled"));
+      });
+
+      try {
+        this.endpoint.postMessage({ ...request, id }, options.transfer);
+      } catch (error) {
+        this.pending.delete(id);
+        reject(reviveError(serializeError(error)));
+      }
+    });
+  }
+
+  private handleResponse(message: ResponseMessage): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    switch (message.type) {
+      case "progress":
+        pending.onProgress?.(message.progress);
+        return;
+      case "result":
+        this.pending.delete(message.id);
+        pending.resolve(message.value);
+        return;
+      case "error":
+        this.pending.delete(message.id);
+        pending.reject(reviveError(message.error));
+        return;
+    }
+  }
+}
+
+async function handleRequest(
+  request: RequestMessage,
+  customRules: CustomRules,
+  signal: AbortSignal,
+  onProgress: (progress: LoadProgress) => void,
+): Promise<unknown> {
+  switch (request.type) {
+    case "parse":
+      return validateDataSet(
+        parse(request.input, request.options),
+        request.validationRules,
+        request.rowRules,
+        customRules,
+        request.messages,
+        request.datasetRules,
+      );
+
+    case "parse-stream": {
+      const { source } = request;
+      const stream = source instanceof Blob ? source.stream() : source;
+      const dataSet = await parseStream(stream, {
+        ...request.options,
+        signal,
+        onProgress,
+      });
+      return validateDataSet(
+        dataSet,
+        request.validationRules,
+        request.rowRules,
+        customRules,
+        request.messages,
+        request.datasetRules,
+      );
+    }
+
+    case "validate":
+      return revalidateRows(
+        request.rows,
+        request.columns,
+        request.rowRules,
+        new Set(request.keys),
+        customRules,
+        request.messages,
+      );
+  }
+}
+
+function listen(
+  endpoint: WorkerEndpoint,
+  handler: (message: unknown) => void,
+): void {
+  if (endpoint.on) {
+    endpoint.on("message", handler);
+  } else {
+    endpoint.addEventListener?.("message", (event) => handler(event.data));
+  }
+}
+
+// Errors lose their prototype when structured-cloned, so they cross the
+// boundary as plain data and are rebuilt into the matching SDK class.
+function serializeError(error: unknown): SerializedError {
+  if (error instanceof FileSizeError) {
+    return {
+      name: error.name,
+      code: error.code,
+      message: error.message,
+      size: error.size,
+      maxSize: error.maxSize,
+    };
+  }
+  if (error instanceof RecordPathError) {
+    return {
+      name: error.name,
+      code: error.code,
+      message: error.message,
+      candidates: error.candidates,
+    };
+  }
+  if (error instanceof ParseError) {
+    return {
+      name: error.name,
+      code: error.code,
+      message: error.message,
+      location: {
+        row: error.row,
+        line: error.line,
+        column: error.column,
+        offset: error.offset,
+        snippet: error.snippet,
+        recordIndex: error.recordIndex,
+      },
+    };
+  }
+  if (error instanceof DataValidatorError) {
+    return { name: error.name, code: error.code, message: error.message };
+  }
+  return {
+    name: "Error",
+    code: "UNKNOWN_ERROR",
+    message:
+      error instanceof Error ? error.message : "An unknown error occurred",
+  };
+}
+
+function reviveError(error: SerializedError): DataValidatorError {
+  switch (error.name) {
+    case "FileSizeError":
+      return new FileSizeError(error.size ?? 0, error.maxSize ?? 0);
+    case "RecordPathError":
+      return new RecordPathError(error.message, error.candidates ?? []);
+    case "ParseError":
+      return new ParseError(error.message, error.location);
+    default:
+      return new DataValidatorError(error.code, error.message);
+  }
+}
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore } from "../dist/index.js";
+
+/** A lookup that only answers when the test resolves or rejects its calls. */
+function mockLookup() {
+  const calls = [];
+  const rule = {
+    async: true,
+    message: "Unknown customer {value}",
+    validate: (value, { signal }) =>
+      new Promise((resolve, reject) => {
+        calls.push({ value, signal, resolve, reject });
+      }),
+  };
+  return { calls, rule };
+}
+
+/** Loads customers with mocked timers, so checks only move when told to. */
+function setup(t, options = {}, customers = ["c1", "c2"]) {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const lookup = mockLookup();
+  const store = new DataStore({
+    customRules: { "customer-exists": lookup.rule },
+    validationRules: { customer: [{ type: "customer-exists" }] },
+    ...options,
+  });
+  store.loadFromString(
+    JSON.stringify(customers.map((customer) => ({ customer }))),
+    "data.json",
+  );
+  /** Lets settled lookups run on and delivers their results. */
+  const flush = async () => {
+    await new Promise(setImmediate);
+    t.mock.timers.tick(50);
+  };
+  return { store, calls: lookup.calls, flush };
+}
+
+const codes = (store) =>
+  store.getRows().map((row) => (row.errors.customer ?? []).map((e) => e.code));
+const pending = (store) => store.getRows().map((row) => row.pending ?? []);
+
+test("cells are pending until their lookups settle", async (t) => {
+  const { store, calls, flush } = setup(t);
+  assert.deepEqual(
+    calls.map(({ value }) => value),
+    ["c1", "c2"],
+  );
+  assert.deepEqual(pending(store), [["customer"], ["customer"]]);
+
+  calls[1].resolve(false);
+  await flush();
+  assert.deepEqual(pending(store), [["customer"], []]);
+  assert.deepEqual(codes(store), [[], ["CUSTOM"]]);
+  assert.equal(
+    store.getRows()[1].errors.customer[0].message,
+    "Unknown customer c2",
+  );
+
+  calls[0].resolve(true);
+  await flush();
+  assert.deepEqual(pending(store), [[], []]);
+  assert.deepEqual(codes(store), [[], ["CUSTOM"]]);
+});
+
+test("a lookup that rejects is reported on the cell", async (t) => {
+  const { store, calls, flush } = setup(t, {}, ["c1"]);
+  calls[0].reject(new Error("offline"));
+  await flush();
+
+  assert.deepEqual(pending(store), [[]]);
+  assert.deepEqual(codes(store), [["ASYNC_FAILED"]]);
+});
+
+test("edits wait for the debounce before looking up", async (t) => {
+  const { store, calls, flush } = setup(t, { asyncDebounceMs: 300 }, ["c1"]);
+  calls[0].resolve(true);
+  await flush();
+  const [row] = store.getRows();
+
+  store.updateCell(row.id, "customer", "c2");
+  assert.deepEqual(pending(store), [["customer"]]);
+  t.mock.timers.tick(299);
+  store.updateCell(row.id, "customer", "c3");
+  t.mock.timers.tick(299);
+  assert.equal(calls.length, 1);
+
+  t.mock.timers.tick(1);
+  assert.deepEqual(
+    calls.map(({ value }) => value),
+    ["c1", "c3"],
+  );
+});
+
+test("an edit aborts the running lookup and drops its result", async (t) => {
+  const { store, calls, flush } = setup(t, { asyncDebounceMs: 300 }, ["c1"]);
+  const [row] = store.getRows();
+
+  store.updateCell(row.id, "customer", "c2");
+  assert.equal(calls[0].signal.aborted, true);
+  t.mock.timers.tick(300);
+  const stale = calls[1];
+
+  store.updateCell(row.id, "customer", "c3");
+  assert.equal(stale.signal.aborted, true);
+  stale.resolve(false);
+  calls[0].resolve(false);
+  await flush();
+  assert.deepEqual(codes(store), [[]]);
+  assert.deepEqual(pending(store), [["customer"]]);
+
+  t.mock.timers.tick(300);
+  calls[2].resolve(true);
+  await flush();
+  assert.equal(calls[2].value, "c3");
+  assert.deepEqual(codes(store), [[]]);
+  assert.deepEqual(pending(store), [[]]);
+});
+
+test("at most asyncConcurrency lookups run at once", async (t) => {
+  const customers = ["c1", "c2", "c3", "c4", "c5"];
+  const { store, calls, flush } = setup(t, { asyncConcurrency: 2 }, customers);
+  assert.equal(calls.length, 2);
+
+  // Editing a queued cell drops its check without ever running it.
+  store.updateCell(store.getRows()[2].id, "customer", null);
+  calls[0].resolve(true);
+  await flush();
+  assert.deepEqual(
+    calls.map(({ value }) => value),
+    ["c1", "c2", "c4"],
+  );
+
+  calls[1].resolve(true);
+  calls[2].reject(new Error("offline"));
+  await flush();
+  assert.deepEqual(
+    calls.map(({ value }) => value),
+    ["c1", "c2", "c4", "c5"],
+  );
+  calls[3].resolve(false);
+  await flush();
+  assert.deepEqual(pending(store), [[], [], [], [], []]);
+  assert.deepEqual(codes(store), [[], [], [], ["ASYNC_FAILED"], ["CUSTOM"]]);
+});
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, parse } from "../dist/index.js";
+
+const records = [{ a: 1, b: "x" }, { a: 2 }, { a: 3, c: null, b: "y" }];
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+test("columns are the union of all keys in order of appearance", () => {
+  const { columns, rows } = parse(JSON.stringify(records));
+  assert.deepEqual(
+    columns.map(({ key, presentCount }) => [key, presentCount]),
+    [
+      ["a", 3],
+      ["b", 2],
+      ["c", 1],
+    ],
+  );
+  assert.equal("b" in rows[1].cells, false);
+  assert.equal(rows[2].cells.c, null);
+});
+
+test("keys a record lacked stay absent on export", () => {
+  const store = new DataStore();
+  store.loadFromString(JSON.stringify(records), "data.json");
+  assert.deepEqual(store.exportData(), records);
+});
+
+test("varying keys are reported only when asked for", () => {
+  const quiet = new DataStore();
+  quiet.loadFromString(JSON.stringify(records), "data.json");
+  assert.equal(quiet.getErrorCount(), 0);
+
+  const store = new DataStore({
+    flagMissingKeys: true,
+    flagUnexpectedKeys: true,
+  });
+  store.loadFromString(JSON.stringify(records), "data.json");
+  assert.deepEqual(codes(store, "b"), [[], ["MISSING_KEY"], []]);
+  assert.deepEqual(codes(store, "c"), [[], [], ["UNEXPECTED_KEY"]]);
+});
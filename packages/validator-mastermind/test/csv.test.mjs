@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataFormats, ParseError, parse } from "../dist/index.js";
+
+const cells = (dataSet) => dataSet.rows.map((row) => row.cells);
+
+test("CSV is read with its header and typed values", () => {
+  const dataSet = parse(
+    'name,qty,active,zip\nAda,3,true,01234\n"Lee, Jo",4.5,false,\n',
+    {
+      format: DataFormats.CSV,
+    },
+  );
+
+  assert.deepEqual(
+    dataSet.columns.map((column) => [column.key, column.type]),
+    [
+      ["name", "string"],
+      ["qty", "number"],
+      ["active", "boolean"],
+      ["zip", "string"],
+    ],
+  );
+  assert.deepEqual(cells(dataSet), [
+    { name: "Ada", qty: 3, active: true, zip: "01234" },
+    { name: "Lee, Jo", qty: 4.5, active: false, zip: null },
+  ]);
+});
+
+test("quoted fields keep doubled quotes and line breaks", () => {
+  const dataSet = parse('a,b\n"say ""hi""","two\nlines"\n', {
+    format: DataFormats.CSV,
+  });
+  assert.deepEqual(cells(dataSet), [{ a: 'say "hi"', b: "two\nlines" }]);
+});
+
+test("the delimiter is sniffed and a BOM is ignored", () => {
+  assert.deepEqual(cells(parse("\uFEFFa\tb\n1\t2\n", { format: "csv" })), [
+    { a: 1, b: 2 },
+  ]);
+  assert.deepEqual(cells(parse("a;b\nx;y\n", { format: "csv" })), [
+    { a: "x", b: "y" },
+  ]);
+  assert.deepEqual(
+    cells(parse("a|b\nx|y\n", { format: "csv", delimiter: "|" })),
+    [{ a: "x", b: "y" }],
+  );
+});
+
+test("files without a header get numbered columns", () => {
+  const dataSet = parse("1,2\n3,4\n", { format: "csv", hasHeader: false });
+  assert.deepEqual(
+    dataSet.columns.map((column) => column.key),
+    ["column_1", "column_2"],
+  );
+  assert.equal(dataSet.rows.length, 2);
+});
+
+test("a row with too many fields throws with its line", () => {
+  assert.throws(
+    () => parse("a,b\n1,2\n3,4,5\n", { format: "csv" }),
+    (error) => error instanceof ParseError && error.line === 3,
+  );
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, DataValidatorError, validateCell } from "../dist/index.js";
+
+const messages = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.message));
+
+const sku = {
+  validate: (value, { params }) =>
+    String(value).startsWith(`${params.prefix}-`),
+  message: "{value} is not a {prefix} SKU",
+  reads: [],
+};
+
+test("params reach the validator and fill the message", () => {
+  const store = new DataStore({
+    customRules: { sku },
+    validationRules: { product: [{ type: "sku", params: { prefix: "AB" } }] },
+  });
+  store.loadFromString(
+    '[{"product":"AB-1"},{"product":"CD-2"},{"product":null}]',
+    "data.json",
+  );
+
+  assert.deepEqual(messages(store, "product"), [
+    [],
+    ["CD-2 is not a AB SKU"],
+    [],
+  ]);
+  const [error] = store.getRows()[1].errors.product;
+  assert.equal(error.rule, "sku");
+  assert.equal(error.code, "CUSTOM");
+});
+
+test("a rule's message wins over the registered one and a returned one over both", () => {
+  const column = { key: "v", label: "V", type: "string" };
+  const customRules = {
+    odd: {
+      validate: (value) => Number(value) % 2 === 1,
+      message: "{value} is even",
+    },
+    plain: { validate: () => false },
+    own: { validate: (value) => `no ${value}`, message: "unused" },
+  };
+  const check = (rule) =>
+    validateCell(
+      "4",
+      { ...column, validation: [rule] },
+      undefined,
+      customRules,
+    ).map((e) => e.message);
+
+  assert.deepEqual(check({ type: "odd" }), ["4 is even"]);
+  assert.deepEqual(check({ type: "odd", message: "Odd only, not {value}" }), [
+    "Odd only, not 4",
+  ]);
+  assert.deepEqual(check({ type: "plain" }), [
+    "Value does not satisfy the plain rule",
+  ]);
+  assert.deepEqual(check({ type: "own" }), ["no 4"]);
+});
+
+test("registering a rule re-checks the columns that use it", () => {
+  const store = new DataStore({
+    validationRules: { product: [{ type: "sku", params: { prefix: "AB" } }] },
+  });
+  store.loadFromString("product\nAB-1\nCD-2\n", "data.csv");
+  assert.deepEqual(messages(store, "product"), [[], []]);
+
+  store.registerRule("sku", sku);
+  assert.deepEqual(messages(store, "product"), [[], ["CD-2 is not a AB SKU"]]);
+  assert.throws(
+    () => store.registerRule("min", sku),
+    (error) =>
+      error instanceof DataValidatorError && error.code === "INVALID_RULE",
+  );
+});
+
+test("rules reading other cells are re-checked when those cells change", () => {
+  const store = new DataStore({
+    customRules: {
+      "below-limit": {
+        validate: (value, { row }) => Number(value) <= Number(row.cells.limit),
+        message: "Over the limit",
+        reads: ["limit"],
+      },
+    },
+    validationRules: { amount: [{ type: "below-limit" }] },
+  });
+  store.loadFromString("amount,limit\n5,10\n", "data.csv");
+  const [row] = store.getRows();
+
+  store.updateCell(row.id, "limit", 3);
+  assert.deepEqual(messages(store, "amount"), [["Over the limit"]]);
+  store.updateCell(row.id, "limit", 8);
+  assert.deepEqual(messages(store, "amount"), [[]]);
+});
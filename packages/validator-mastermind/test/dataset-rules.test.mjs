@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, ValidationFailedError } from "../dist/index.js";
+
+function load(datasetRules, input, fileName = "data.csv") {
+  const store = new DataStore({ datasetRules });
+  store.loadFromString(input, fileName);
+  return store;
+}
+
+const codes = (store) => store.getDatasetErrors().map((e) => e.code);
+
+test("row counts are checked against min-rows and max-rows", () => {
+  const rules = [
+    { type: "min-rows", value: 2 },
+    { type: "max-rows", value: 3 },
+  ];
+  assert.deepEqual(codes(load(rules, "a\n1\n")), ["MIN_ROWS"]);
+  assert.deepEqual(codes(load(rules, "a\n1\n2\n")), []);
+  assert.deepEqual(codes(load(rules, "a\n1\n2\n3\n4\n")), ["MAX_ROWS"]);
+});
+
+test("sum compares the rounded total by operator", () => {
+  const csv = "share\n0.1\n0.2\n\nx\n";
+  assert.deepEqual(
+    codes(load([{ type: "sum", column: "share", value: 0.3 }], csv)),
+    [],
+  );
+
+  const store = load(
+    [{ type: "sum", column: "share", value: 1, operator: ">=" }],
+    csv,
+  );
+  const [error] = store.getDatasetErrors();
+  assert.equal(error.code, "SUM_GTE");
+  assert.equal(error.column, "share");
+  assert.deepEqual(error.params, {
+    field: "Share",
+    operator: ">=",
+    total: 1,
+    sum: 0.3,
+  });
+});
+
+test("contains needs every value somewhere in the column", () => {
+  const rule = {
+    type: "contains",
+    column: "region",
+    values: ["EMEA", "APAC"],
+    severity: "warning",
+  };
+  assert.deepEqual(codes(load([rule], "region\nEMEA\nAPAC\n")), []);
+
+  const store = load([rule], '[{"region":["EMEA","AMER"]}]', "data.json");
+  const [error] = store.getDatasetErrors();
+  assert.equal(error.code, "CONTAINS");
+  assert.equal(error.severity, "warning");
+});
+
+test("edits update dataset errors and blocking ones stop the export", () => {
+  const store = load(
+    [
+      { type: "sum", column: "share", value: 100 },
+      { type: "contains", column: "tag", values: ["x"], severity: "info" },
+    ],
+    "share,tag\n40,a\n60,b\n",
+  );
+  assert.deepEqual(codes(store), ["CONTAINS"]);
+  assert.equal(store.exportData({ requireValid: true }).length, 2);
+
+  const [first] = store.getRows();
+  store.updateCell(first.id, "share", 30);
+  assert.deepEqual(codes(store).sort(), ["CONTAINS", "SUM_EQ"]);
+  assert.throws(
+    () => store.exportData({ requireValid: true }),
+    (error) =>
+      error instanceof ValidationFailedError &&
+      error.cellErrors.length === 0 &&
+      error.datasetErrors.map((e) => e.code).join() === "SUM_EQ",
+  );
+
+  store.batchUpdateCells([
+    { rowId: first.id, columnKey: "share", value: 40 },
+    { rowId: first.id, columnKey: "tag", value: "x" },
+  ]);
+  assert.deepEqual(codes(store), []);
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, datasetErrors, validateAllRows } from "../dist/index.js";
+
+/** The errors of every row, in an order independent of how they were found. */
+const normalize = (rows) =>
+  rows.map((row) =>
+    Object.keys(row.errors)
+      .filter((key) => row.errors[key].length > 0)
+      .sort()
+      .map((key) => [key, row.errors[key].map((e) => e.code).sort()]),
+  );
+
+/** Asserts that the store's errors equal those of a full pass over its cells. */
+function assertMatchesFullPass(store, customRules, rowRules = []) {
+  const full = validateAllRows(
+    store.getRows().map((row) => ({ ...row, errors: {} })),
+    store.getColumns(),
+    rowRules,
+    customRules,
+  );
+  assert.deepEqual(normalize(store.getRows()), normalize(full));
+}
+
+const below = (reads) => ({
+  validate: (value, { row }) => Number(value) < Number(row.cells.b),
+  ...(reads && { reads }),
+});
+
+for (const [name, reads] of [
+  ["declared in reads", ["b"]],
+  ["undeclared", undefined],
+]) {
+  test(`custom rules re-run when a cell they read changes (${name})`, () => {
+    const customRules = { below: below(reads) };
+    const store = new DataStore({
+      customRules,
+      validationRules: { a: [{ type: "below" }] },
+    });
+    store.loadFromString("a,b,c\n1,5,x\n2,5,y\n", "data.csv");
+    assertMatchesFullPass(store, customRules);
+
+    const [first, second] = store.getRows();
+    store.updateCell(first.id, "b", 0);
+    store.batchUpdateCells([
+      { rowId: second.id, columnKey: "b", value: 1 },
+      { rowId: second.id, columnKey: "c", value: "z" },
+    ]);
+    assert.deepEqual(
+      store.getRows().map((row) => row.errors.a?.map((e) => e.code)),
+      [["CUSTOM"], ["CUSTOM"]],
+    );
+    assertMatchesFullPass(store, customRules);
+  });
+}
+
+/** A seeded generator, so a failing sequence of edits can be replayed. */
+function random(seed) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+}
+
+test("random edits keep every kind of rule in step with a full pass", () => {
+  const rowRules = [
+    { type: "unique", columns: ["id"] },
+    { type: "unique", columns: ["region", "status"], severity: "warning" },
+    { type: "compare", columns: ["end", "start"], operator: ">" },
+    {
+      type: "required-if",
+      columns: ["tracking", "status"],
+      values: ["shipped"],
+    },
+  ];
+  const datasetRules = [
+    { type: "min-rows", value: 2 },
+    { type: "sum", column: "share", value: 100 },
+    { type: "contains", column: "region", values: ["EMEA", "APAC"] },
+  ];
+  const store = new DataStore({
+    validationRules: {
+      amount: [
+        {
+          type: "max",
+          value: 50,
+          when: { column: "region", values: ["EMEA"] },
+        },
+        {
+          type: "min",
+          value: 10,
+          when: [
+            { column: "status", values: ["shipped"] },
+            { column: "tracking" },
+          ],
+        },
+      ],
+    },
+    rowRules,
+    datasetRules,
+  });
+  const records = Array.from({ length: 12 }, (_, i) => ({
+    id: i % 4,
+    region: ["EMEA", "APAC", "AMER"][i % 3],
+    status: i % 2 ? "shipped" : "open",
+    tracking: i % 3 ? `T${i}` : null,
+    amount: i * 7,
+    start: i,
+    end: i + 1,
+    share: 10,
+  }));
+  store.loadFromString(JSON.stringify(records), "data.json");
+
+  const next = random(7);
+  const pick = (items) => items[Math.floor(next() * items.length)];
+  const values = {
+    id: [0, 1, 2, 3, 4, null],
+    region: ["EMEA", "APAC", "AMER", null],
+    status: ["shipped", "open", null],
+    tracking: ["T1", null],
+    amount: [0, 5, 20, 80],
+    start: [0, 5, 10],
+    end: [0, 5, 10, null],
+    share: [0, 10, 20],
+  };
+  for (let step = 0; step < 200; step++) {
+    const edits = Array.from({ length: 1 + Math.floor(next() * 3) }, () => {
+      const columnKey = pick(Object.keys(values));
+      return {
+        rowId: pick(store.getRows()).id,
+        columnKey,
+        value: pick(values[columnKey]),
+      };
+    });
+    if (edits.length === 1) {
+      const [{ rowId, columnKey, value }] = edits;
+      store.updateCell(rowId, columnKey, value);
+    } else {
+      store.batchUpdateCells(edits);
+    }
+
+    assertMatchesFullPass(store, {}, rowRules);
+    assert.deepEqual(
+      store
+        .getDatasetErrors()
+        .map((e) => e.code)
+        .sort(),
+      datasetErrors(store.getRows(), store.getColumns(), datasetRules)
+        .map((e) => e.code)
+        .sort(),
+    );
+  }
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, fromJsonSchema, toJsonSchema } from "../dist/index.js";
+
+test("rules that only warn are not exported as constraints", () => {
+  const schema = toJsonSchema([
+    {
+      key: "qty",
+      label: "Qty",
+      type: "number",
+      validation: [
+        { type: "min", value: 0 },
+        { type: "max", value: 100, severity: "warning" },
+        { type: "required", severity: "info" },
+      ],
+    },
+  ]);
+
+  assert.deepEqual(schema.properties.qty, {
+    title: "Qty",
+    type: ["number", "null"],
+    minimum: 0,
+  });
+  assert.equal(schema.required, undefined);
+});
+
+const document = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "array",
+  items: {
+    type: "object",
+    required: ["id", "email"],
+    additionalProperties: false,
+    properties: {
+      id: { type: "integer", minimum: 1 },
+      email: { type: "string", format: "email", title: "E-mail" },
+      size: { enum: ["S", "M", "L"] },
+      tags: { type: "array", items: { type: "string" }, maxItems: 3 },
+      address: {
+        type: "object",
+        properties: { zip: { type: "string", pattern: "^\\d{5}$" } },
+      },
+      note: { oneOf: [{ type: "string" }, { type: "number" }] },
+    },
+  },
+};
+
+test("JSON Schemas import as column schemas", () => {
+  const { schema, unsupported } = fromJsonSchema(document);
+
+  assert.equal(schema.additionalColumns, false);
+  assert.deepEqual(
+    schema.columns.map(({ key, type, required, optional, label }) => [
+      key,
+      type,
+      required ?? optional ?? null,
+      label ?? null,
+    ]),
+    [
+      ["id", "integer", null, null],
+      ["email", "email", null, "E-mail"],
+      ["size", undefined, true, null],
+      ["tags", "list", true, null],
+      ["address.zip", "string", true, null],
+      ["note", undefined, true, null],
+    ],
+  );
+  assert.deepEqual(
+    unsupported.map(({ keyword, path }) => [keyword, path]),
+    [["oneOf", "/items/properties/note/oneOf"]],
+  );
+});
+
+test("imported rules validate records and export back", () => {
+  const store = new DataStore({ schema: fromJsonSchema(document).schema });
+  store.loadFromString(
+    JSON.stringify([
+      {
+        id: 0,
+        email: "a@b.co",
+        size: "XL",
+        tags: ["a"],
+        address: { zip: "1" },
+      },
+    ]),
+    "data.json",
+  );
+  const errors = store.getRows()[0].errors;
+  assert.deepEqual(
+    ["id", "size", "address.zip"].map((key) => errors[key]?.[0]?.code),
+    ["MIN", "ENUM", "PATTERN"],
+  );
+
+  const exported = store.exportJsonSchema();
+  assert.equal(exported.additionalProperties, undefined);
+  assert.deepEqual(exported.properties.id, {
+    title: "Id",
+    type: ["integer", "null"],
+    minimum: 1,
+  });
+  assert.deepEqual(
+    exported.properties.address.properties.zip.pattern,
+    "^\\d{5}$",
+  );
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, ParseError, parse } from "../dist/index.js";
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+test("arrays of primitives become list columns with an item type", () => {
+  const { columns, rows } = parse('[{"tags":["a","b"]},{"tags":[1]}]');
+  assert.equal(columns[0].type, "list");
+  assert.equal(columns[0].itemType, "string");
+  assert.deepEqual(rows[0].cells.tags, ["a", "b"]);
+  assert.equal(parse('[{"n":[1,2]}]').columns[0].itemType, "number");
+});
+
+test("list rules check the array and items rules each element", () => {
+  const store = new DataStore({
+    validationRules: {
+      tags: [
+        { type: "required" },
+        { type: "max-items", value: 2 },
+        { type: "unique-items" },
+        { type: "items", rules: [{ type: "max-length", value: 3 }] },
+      ],
+    },
+  });
+  store.loadFromString(
+    JSON.stringify([
+      { tags: ["a", "b"] },
+      { tags: [] },
+      { tags: ["a", "a", "b"] },
+      { tags: ["ok", "toolong"] },
+    ]),
+    "data.json",
+  );
+
+  assert.deepEqual(codes(store, "tags"), [
+    [],
+    ["REQUIRED"],
+    ["MAX_ITEMS", "UNIQUE_ITEMS"],
+    ["ITEM"],
+  ]);
+  const [item] = store.getRows()[3].errors.tags;
+  assert.equal(item.params.index, 2);
+  assert.match(item.message, /^Item 2: /);
+});
+
+test("lists are exported as arrays", () => {
+  const store = new DataStore();
+  store.loadFromString('[{"tags":["a"]}]', "data.json");
+  store.updateCell(store.getRows()[0].id, "tags", ["a", "b"]);
+  assert.deepEqual(store.exportData(), [{ tags: ["a", "b"] }]);
+});
+
+test("arrays of objects are rejected", () => {
+  assert.throws(() => parse('[{"tags":[{"a":1}]}]'), ParseError);
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  DataStore,
+  formatDate,
+  localeDateFormat,
+  readDate,
+  readNumber,
+} from "../dist/index.js";
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+for (const [format, input] of [
+  ["JSON", '[{"price":"1.234,56"},{"price":"999"}]'],
+  ["NDJSON", '{"price":"1.234,56"}\n{"price":"999"}\n'],
+]) {
+  test(`${format} number text is read in the locale`, () => {
+    const store = new DataStore({
+      locale: "de-DE",
+      validationRules: { price: [{ type: "max", value: 1000 }] },
+    });
+    store.loadFromString(input, `data.${format.toLowerCase()}`);
+
+    assert.equal(store.getColumns()[0].type, "number");
+    assert.deepEqual(
+      store.getRows().map((row) => row.cells.price),
+      [1234.56, 999],
+    );
+    assert.deepEqual(codes(store, "price"), [["MAX"], []]);
+  });
+}
+
+test("range rules read locale number text in numeric columns", () => {
+  const store = new DataStore({
+    locale: "de-DE",
+    schema: {
+      columns: [
+        {
+          key: "price",
+          type: "number",
+          validation: [{ type: "min", value: 10 }],
+        },
+        { key: "code", type: "string" },
+      ],
+    },
+  });
+  store.loadFromString('[{"price":20,"code":"1.234"}]', "data.json");
+  assert.equal(store.getRows()[0].cells.code, "1.234");
+
+  store.updateCell(store.getRows()[0].id, "price", "2,5");
+  assert.deepEqual(codes(store, "price"), [["MIN"]]);
+});
+
+test("number text follows the locale's separators", () => {
+  assert.equal(readNumber("1.234,56", "de-DE"), 1234.56);
+  assert.equal(readNumber("1 234,5", "fr-FR"), 1234.5);
+  assert.equal(readNumber("1,234.5", "en-US"), 1234.5);
+  assert.equal(readNumber("1.5", "de-DE"), null);
+  assert.equal(readNumber("1.234,56"), null);
+  assert.equal(readNumber(" 42 "), 42);
+});
+
+test("dates are read in the locale's short form and as ISO 8601", () => {
+  const utc = (y, m, d) => new Date(Date.UTC(y, m - 1, d)).getTime();
+  assert.equal(localeDateFormat("de-DE"), "D.M.YYYY");
+  assert.equal(localeDateFormat("en-US"), "M/D/YYYY");
+  assert.equal(
+    readDate("31.12.2024", { locale: "de-DE" })?.getTime(),
+    utc(2024, 12, 31),
+  );
+  assert.equal(
+    readDate("12/31/2024", { locale: "en-US" })?.getTime(),
+    utc(2024, 12, 31),
+  );
+  assert.equal(
+    readDate("2024-12-31", { locale: "de-DE" })?.getTime(),
+    utc(2024, 12, 31),
+  );
+  assert.equal(readDate("31.02.2024", { locale: "de-DE" }), null);
+});
+
+test("a date format is the only text a column accepts", () => {
+  const format = { dateFormat: "D/M/YYYY" };
+  assert.equal(readDate("5/3/2024", format)?.getTime(), Date.UTC(2024, 2, 5));
+  assert.equal(readDate("2024-03-05", format), null);
+  assert.equal(
+    formatDate(new Date(Date.UTC(2024, 2, 5)), "DD.MM.YYYY"),
+    "05.03.2024",
+  );
+  assert.equal(
+    formatDate(new Date(Date.UTC(2024, 2, 5, 9, 7, 3)), "YYYY-MM-DD HH:mm:ss"),
+    "2024-03-05 09:07:03",
+  );
+});
+
+test("CSV fields and dates are typed and checked in the locale", () => {
+  const store = new DataStore({
+    locale: "de-DE",
+    schema: {
+      columns: [
+        { key: "shipped", type: "date", dateFormat: "DD/MM/YYYY" },
+        { key: "at", dateFormat: "DD.MM.YYYY HH:mm" },
+      ],
+      additionalColumns: true,
+    },
+  });
+  store.loadFromString(
+    "shipped;at;total;seen;zip\n" +
+      "31/12/2024;01.02.2024 09:30;1.234,5;24.12.2024;01234\n" +
+      "2024-12-31;2024-02-01;7;x;02345\n",
+    "data.csv",
+  );
+
+  assert.deepEqual(
+    Object.fromEntries(store.getColumns().map(({ key, type }) => [key, type])),
+    {
+      shipped: "date",
+      at: "datetime",
+      total: "number",
+      seen: "date",
+      zip: "string",
+    },
+  );
+  assert.equal(store.getRows()[0].cells.total, 1234.5);
+  assert.equal(store.getRows()[0].cells.zip, "01234");
+  assert.deepEqual(codes(store, "shipped"), [[], ["EXPECTED_DATE_FORMAT"]]);
+  assert.deepEqual(codes(store, "at"), [[], ["EXPECTED_DATE_FORMAT"]]);
+  assert.deepEqual(codes(store, "seen"), [[], ["EXPECTED_DATE"]]);
+});
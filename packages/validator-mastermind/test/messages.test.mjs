@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, resolveMessages, validateCell } from "../dist/index.js";
+
+test("comparisons are worded per operator", () => {
+  const store = new DataStore({
+    rowRules: [{ type: "compare", columns: ["end", "start"], operator: ">" }],
+    datasetRules: [{ type: "sum", column: "share", value: 100 }],
+    messageLocale: "de",
+    messages: {
+      de: {
+        COMPARE_GT: "{field} muss größer als {other} sein",
+        SUM_EQ: "Die Summe von {field} muss {total} sein, ist aber {sum}",
+      },
+    },
+  });
+  store.loadFromString("start,end,share\n5,3,40\n", "data.csv");
+
+  const [error] = store.getRows()[0].errors.end;
+  assert.equal(error.code, "COMPARE_GT");
+  assert.equal(error.message, "End muss größer als Start sein");
+  assert.equal(error.params.operator, ">");
+  assert.deepEqual(
+    store.getDatasetErrors().map((e) => [e.code, e.message]),
+    [["SUM_EQ", "Die Summe von Share muss 100 sein, ist aber 40"]],
+  );
+});
+
+const catalogues = {
+  de: { REQUIRED: "Pflichtfeld", MIN: "Wert muss mindestens {min} sein" },
+  "de-CH": { REQUIRED: "Pflichtfeld (CH)" },
+  fr: { REQUIRED: "Ce champ est obligatoire" },
+};
+
+test("catalogues fall back from the most specific locale", () => {
+  assert.deepEqual(resolveMessages(catalogues, "de-CH"), {
+    REQUIRED: "Pflichtfeld (CH)",
+    MIN: "Wert muss mindestens {min} sein",
+  });
+  assert.deepEqual(resolveMessages(catalogues, "fr-CA"), catalogues.fr);
+  assert.deepEqual(resolveMessages(catalogues, "en"), {});
+
+  const column = {
+    key: "qty",
+    label: "Qty",
+    type: "number",
+    validation: [{ type: "required" }, { type: "min", value: 1 }],
+  };
+  const check = (value, locale) =>
+    validateCell(
+      value,
+      column,
+      undefined,
+      {},
+      [column],
+      resolveMessages(catalogues, locale),
+    ).map((e) => e.message);
+  assert.deepEqual(check(null, "de-CH"), ["Pflichtfeld (CH)"]);
+  assert.deepEqual(check(0, "de-CH"), ["Wert muss mindestens 1 sein"]);
+  assert.deepEqual(check(0, "fr"), ["Value must be at least 1"]);
+});
+
+test("templates fill the value and params and never replace a rule's message", () => {
+  const store = new DataStore({
+    messageLocale: "de",
+    messages: {
+      de: {
+        ENUM: "{value} ist keiner von {values}",
+        MAX: "Höchstens {max}",
+      },
+    },
+    validationRules: {
+      size: [{ type: "enum", values: ["S", "M"] }],
+      qty: [{ type: "max", value: 5, message: "Too many" }],
+    },
+  });
+  store.loadFromString("size,qty\nXL,9\n", "data.csv");
+  const [row] = store.getRows();
+
+  assert.equal(row.errors.size[0].message, 'XL ist keiner von "S", "M"');
+  assert.deepEqual(row.errors.size[0].params, { values: ["S", "M"] });
+  assert.equal(row.errors.qty[0].message, "Too many");
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataFormats, ParseError, detectFormat, parse } from "../dist/index.js";
+
+const cells = (dataSet) => dataSet.rows.map((row) => row.cells);
+
+test("NDJSON reads one record per line and skips blank lines", () => {
+  const dataSet = parse('{"a":1}\n\n{"a":2,"b":"x"}\n', {
+    format: DataFormats.NDJSON,
+  });
+  assert.deepEqual(cells(dataSet), [{ a: 1 }, { a: 2, b: "x" }]);
+});
+
+test("NDJSON is sniffed when no format is given", () => {
+  assert.deepEqual(cells(parse('{"a":1}\n{"a":2}\n')), [{ a: 1 }, { a: 2 }]);
+  assert.deepEqual(cells(parse('[{"a":1},\n{"a":2}]')), [{ a: 1 }, { a: 2 }]);
+});
+
+test("a malformed line throws with its line number", () => {
+  assert.throws(
+    () => parse('{"a":1}\n{"a":\n{"a":3}\n', { format: "ndjson" }),
+    (error) => error instanceof ParseError && error.line === 2,
+  );
+});
+
+test("with skipInvalidLines a malformed line is recorded and skipped", () => {
+  const dataSet = parse('{"a":1}\nnope\n{"a":3}\n', {
+    format: "ndjson",
+    skipInvalidLines: true,
+  });
+  assert.deepEqual(cells(dataSet), [{ a: 1 }, { a: 3 }]);
+  assert.deepEqual(
+    dataSet.metadata.rejectedRecords.map(({ line, content }) => [
+      line,
+      content,
+    ]),
+    [[2, "nope"]],
+  );
+});
+
+test("formats are detected from file names and MIME types", () => {
+  assert.equal(detectFormat("orders.jsonl"), "ndjson");
+  assert.equal(detectFormat("orders.ndjson"), "ndjson");
+  assert.equal(detectFormat("orders.tsv"), "csv");
+  assert.equal(detectFormat("orders", "application/x-ndjson"), "ndjson");
+  assert.equal(detectFormat("orders.txt"), undefined);
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, ParseError, parse } from "../dist/index.js";
+
+const records = [
+  { id: 1, address: { city: "Berlin", zip: "10115" } },
+  { id: 2, address: { city: "Köln", zip: "5067" } },
+];
+
+test("nested objects become dot-path columns", () => {
+  const { columns, rows } = parse(JSON.stringify(records));
+  assert.deepEqual(
+    columns.map(({ key, label, path }) => [key, label, path]),
+    [
+      ["id", "Id", undefined],
+      ["address.city", "Address › City", ["address", "city"]],
+      ["address.zip", "Address › Zip", ["address", "zip"]],
+    ],
+  );
+  assert.deepEqual(rows[0].cells, {
+    id: 1,
+    "address.city": "Berlin",
+    "address.zip": "10115",
+  });
+});
+
+test("rules target flattened columns and export re-nests them", () => {
+  const store = new DataStore({
+    validationRules: {
+      "address.zip": [{ type: "pattern", value: "^\\d{5}$" }],
+    },
+  });
+  store.loadFromString(JSON.stringify(records), "data.json");
+  assert.deepEqual(
+    store.getRows().map((row) => row.errors["address.zip"]?.[0]?.code),
+    [undefined, "PATTERN"],
+  );
+
+  store.updateCell(store.getRows()[1].id, "address.zip", "50667");
+  assert.deepEqual(store.exportData(), [
+    records[0],
+    { id: 2, address: { city: "Köln", zip: "50667" } },
+  ]);
+});
+
+test("keys containing dots keep their segments on export", () => {
+  const store = new DataStore();
+  store.loadFromString('[{"a.b":{"c":1}}]', "data.json");
+  assert.deepEqual(store.getColumns()[0].path, ["a.b", "c"]);
+  assert.deepEqual(store.exportData(), [{ "a.b": { c: 1 } }]);
+});
+
+test("objects nested deeper than maxNestingDepth are refused", () => {
+  const deep = JSON.stringify([{ a: { b: { c: 1 } } }]);
+  assert.throws(() => parse(deep), ParseError);
+  assert.deepEqual(parse(deep, { maxNestingDepth: 2 }).rows[0].cells, {
+    "a.b.c": 1,
+  });
+});
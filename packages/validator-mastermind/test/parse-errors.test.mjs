@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ParseError, parse, parseStream } from "../dist/index.js";
+
+/** The ParseError `fn` throws, or fails the test. */
+function parseError(fn) {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof ParseError, String(error));
+    return error;
+  }
+  assert.fail("expected a ParseError");
+}
+
+const broken = '[\n  {"a": 1},\n  {"a": 2,, "b": 3}\n]';
+
+test("JSON syntax errors point at the offending character", () => {
+  const error = parseError(() => parse(broken));
+  assert.equal(error.line, 3);
+  assert.equal(error.column, 11);
+  assert.equal(error.offset, broken.indexOf(",,") + 1);
+  assert.equal(error.snippet.text[error.snippet.pointer], ",");
+  assert.match(error.message, /line 3, column 11/);
+});
+
+test("a stream reports the same location as a string", async () => {
+  const expected = parseError(() => parse(broken));
+  const bytes = new TextEncoder().encode(broken);
+  const stream = new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 5) {
+        controller.enqueue(bytes.slice(i, i + 5));
+      }
+      controller.close();
+    },
+  });
+  await assert.rejects(parseStream(stream), (error) => {
+    assert.deepEqual(
+      [error.line, error.column, error.offset],
+      [expected.line, expected.column, expected.offset],
+    );
+    return true;
+  });
+});
+
+test("offsets count UTF-8 bytes", () => {
+  const error = parseError(() => parse('[{"ä": 1,}]'));
+  assert.equal(error.column, 10);
+  assert.equal(error.offset, 10);
+});
+
+test("records that are not objects point at their start", () => {
+  const error = parseError(() => parse('[{"a": 1},\n 42]'));
+  assert.equal(error.recordIndex, 1);
+  assert.equal(error.line, 2);
+  assert.equal(error.column, 2);
+});
+
+test("NDJSON errors carry their line", () => {
+  const error = parseError(() =>
+    parse('{"a":1}\n{"a":}\n', { format: "ndjson" }),
+  );
+  assert.deepEqual([error.line, error.column, error.offset], [2, 6, 13]);
+});
+
+test("CSV errors carry their row and line", () => {
+  const error = parseError(() =>
+    parse('a,b\n1,2\n"x\ny",2\n3,4,5\n', { format: "csv" }),
+  );
+  assert.equal(error.row, 4);
+  assert.equal(error.line, 5);
+});
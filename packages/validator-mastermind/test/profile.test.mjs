@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore } from "../dist/index.js";
+
+const records = [
+  { qty: 4, name: "ab", when: "2024-03-01" },
+  { qty: 2, name: "abcd", when: "2023-12-31" },
+  { qty: null, name: "", when: "2024-01-15" },
+  { qty: 4, when: "2024-01-15" },
+];
+
+function load() {
+  const store = new DataStore();
+  store.loadFromString(JSON.stringify(records), "data.json");
+  return store;
+}
+
+test("profiles count values and summarise numbers, dates and strings", () => {
+  const store = load();
+
+  const qty = store.getColumnProfile("qty");
+  assert.equal(qty.rowCount, 4);
+  assert.equal(qty.nullCount, 1);
+  assert.equal(qty.distinctCount, 2);
+  assert.deepEqual(qty.topValues, [
+    { value: 4, count: 2 },
+    { value: 2, count: 1 },
+  ]);
+  assert.deepEqual(qty.numbers, { min: 2, max: 4, mean: 10 / 3 });
+
+  const name = store.getColumnProfile("name");
+  assert.equal(name.missingCount, 1);
+  assert.equal(name.emptyCount, 1);
+  assert.equal(name.strings.minLength, 0);
+  assert.equal(name.strings.maxLength, 4);
+
+  assert.deepEqual(store.getColumnProfile("when").dates, {
+    min: "2023-12-31",
+    max: "2024-03-01",
+  });
+  assert.equal(store.getColumnProfile("nope"), null);
+});
+
+test("edits update the profile, which is kept until its column changes", () => {
+  const store = load();
+  const before = store.getColumnProfile("qty");
+  assert.equal(store.getColumnProfile("qty"), before);
+
+  store.updateCell(store.getRows()[0].id, "name", "x");
+  assert.equal(store.getColumnProfile("qty"), before);
+
+  store.updateCell(store.getRows()[2].id, "qty", 10);
+  const after = store.getColumnProfile("qty");
+  assert.notEqual(after, before);
+  assert.equal(after.nullCount, 0);
+  assert.deepEqual(after.numbers, { min: 2, max: 10, mean: 5 });
+
+  // The same cells loaded from scratch give the same profile.
+  const fresh = new DataStore();
+  fresh.loadFromString(JSON.stringify(store.exportData()), "data.json");
+  assert.deepEqual(fresh.getColumnProfile("qty"), after);
+});
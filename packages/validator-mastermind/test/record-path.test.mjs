@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, RecordPathError, parse } from "../dist/index.js";
+
+const document = {
+  meta: { page: 1 },
+  data: { items: [{ id: 1 }, { id: 2 }] },
+};
+
+test("a single wrapped record array is found on its own", () => {
+  const dataSet = parse(JSON.stringify(document));
+  assert.deepEqual(
+    dataSet.rows.map((row) => row.cells.id),
+    [1, 2],
+  );
+  assert.equal(dataSet.metadata.recordPath, "/data/items");
+  assert.deepEqual(dataSet.metadata.envelope, {
+    meta: { page: 1 },
+    data: { items: [] },
+  });
+});
+
+test("several candidates throw a RecordPathError listing them", () => {
+  const text = JSON.stringify({
+    a: [{ x: 1 }],
+    b: { c: [{ y: 1 }, { y: 2 }] },
+  });
+  assert.throws(
+    () => parse(text),
+    (error) =>
+      error instanceof RecordPathError &&
+      JSON.stringify(error.candidates) ===
+        JSON.stringify([
+          { path: "/a", length: 1 },
+          { path: "/b/c", length: 2 },
+        ]),
+  );
+  assert.deepEqual(parse(text, { recordPath: "b.c" }).rows.length, 2);
+  assert.deepEqual(parse(text, { recordPath: "/a" }).rows.length, 1);
+});
+
+test("exportDocument puts the edited records back in place", () => {
+  const store = new DataStore();
+  store.loadFromString(JSON.stringify(document), "data.json");
+  store.updateCell(store.getRows()[0].id, "id", 10);
+  assert.deepEqual(store.exportDocument(), {
+    meta: { page: 1 },
+    data: { items: [{ id: 10 }, { id: 2 }] },
+  });
+});
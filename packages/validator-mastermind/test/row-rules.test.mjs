@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore } from "../dist/index.js";
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+test("compare checks each operator on the first column", () => {
+  const rows = [
+    { a: 1, b: 2 },
+    { a: 2, b: 2 },
+    { a: 3, b: 2 },
+  ];
+  const expected = {
+    "<": [[], ["COMPARE_LT"], ["COMPARE_LT"]],
+    "<=": [[], [], ["COMPARE_LTE"]],
+    ">": [["COMPARE_GT"], ["COMPARE_GT"], []],
+    ">=": [["COMPARE_GTE"], [], []],
+    "==": [["COMPARE_EQ"], [], ["COMPARE_EQ"]],
+    "!=": [[], ["COMPARE_NE"], []],
+  };
+  for (const [operator, want] of Object.entries(expected)) {
+    const store = new DataStore({
+      rowRules: [{ type: "compare", columns: ["a", "b"], operator }],
+    });
+    store.loadFromString(JSON.stringify(rows), "data.json");
+    assert.deepEqual(codes(store, "a"), want, operator);
+    assert.deepEqual(codes(store, "b"), [[], [], []], operator);
+  }
+});
+
+test("compare reads dates in their format and skips empty cells", () => {
+  const store = new DataStore({
+    schema: {
+      columns: [
+        { key: "start", dateFormat: "DD.MM.YYYY" },
+        { key: "end", dateFormat: "DD.MM.YYYY" },
+      ],
+    },
+    rowRules: [
+      {
+        type: "compare",
+        columns: ["end", "start"],
+        operator: ">",
+        report: ["end", "start"],
+        message: "Ends before it starts",
+      },
+    ],
+  });
+  store.loadFromString(
+    "start,end\n01.02.2024,15.01.2024\n01.02.2024,02.02.2024\n01.02.2024,\n",
+    "data.csv",
+  );
+
+  assert.deepEqual(codes(store, "end"), [["COMPARE_GT"], [], []]);
+  assert.deepEqual(codes(store, "start"), [["COMPARE_GT"], [], []]);
+  const [error] = store.getRows()[0].errors.end;
+  assert.equal(error.rule, "compare");
+  assert.equal(error.message, "Ends before it starts");
+});
+
+test("required-if needs a value when the other column matches", () => {
+  const store = new DataStore({
+    rowRules: [
+      { type: "required-if", columns: ["zip", "country"], values: ["US"] },
+      { type: "required-if", columns: ["reason", "refund"] },
+    ],
+  });
+  store.loadFromString(
+    "zip,country,reason,refund\n,US,,5\n,DE,,\n10001,US,late,5\n",
+    "data.csv",
+  );
+
+  assert.deepEqual(codes(store, "zip"), [["REQUIRED_IF"], [], []]);
+  assert.deepEqual(codes(store, "reason"), [["REQUIRED_IF_FILLED"], [], []]);
+});
+
+test("editing one column re-checks the columns its row rules report on", () => {
+  const store = new DataStore({
+    rowRules: [{ type: "compare", columns: ["end", "start"], operator: ">=" }],
+  });
+  store.loadFromString("start,end\n5,9\n", "data.csv");
+  const [row] = store.getRows();
+
+  store.updateCell(row.id, "start", 12);
+  assert.deepEqual(codes(store, "end"), [["COMPARE_GTE"]]);
+
+  store.batchUpdateCells([{ rowId: row.id, columnKey: "end", value: 12 }]);
+  assert.deepEqual(codes(store, "end"), [[]]);
+});
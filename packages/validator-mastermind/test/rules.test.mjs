@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore } from "../dist/index.js";
+
+const ids = (store, key) => store.getEffectiveRules(key).map((rule) => rule.id);
+
+test("generated rule ids skip ids the caller gave", () => {
+  const store = new DataStore({
+    validationRules: { a: [{ id: "rule-2", type: "min", value: 1 }] },
+  });
+  store.addValidationRules("a", [
+    { type: "max", value: 6 },
+    { type: "required" },
+    { id: "rule-4", type: "pattern", value: "^\\d+$" },
+  ]);
+
+  const given = ids(store, "a");
+  assert.equal(new Set(given).size, 4);
+  assert.deepEqual([given[0], given[3]], ["rule-2", "rule-4"]);
+});
+
+test("a repeated id is rejected", () => {
+  const store = new DataStore({
+    validationRules: { a: [{ id: "low", type: "min", value: 1 }] },
+  });
+  assert.throws(
+    () => store.addValidationRules("a", [{ id: "low", type: "max", value: 6 }]),
+    { code: "INVALID_RULE" },
+  );
+});
+
+test("rules are removed by id and re-validate their column", () => {
+  const store = new DataStore({
+    validationRules: { a: [{ id: "low", type: "min", value: 3 }] },
+  });
+  store.loadFromString("a,b\n1,x\n5,y\n", "data.csv");
+  assert.deepEqual(
+    store.getRows().map((row) => row.errors.a?.map((e) => e.code) ?? []),
+    [["MIN"], []],
+  );
+
+  store.removeValidationRules("a", ["low"]);
+  assert.deepEqual(ids(store, "a"), []);
+  assert.equal(store.getErrorCount(), 0);
+});
+
+test("rules from a schema have ids and can be removed", () => {
+  const store = new DataStore({
+    schema: {
+      columns: [
+        {
+          key: "a",
+          type: "number",
+          required: true,
+          validation: [{ type: "max", value: 3 }],
+        },
+      ],
+    },
+    validationRules: { a: [{ id: "low", type: "min", value: 2 }] },
+  });
+  store.loadFromString("a\n1\n5\n", "data.csv");
+  assert.deepEqual(ids(store, "a"), ["schema:a:0", "schema:a:1", "low"]);
+  assert.equal(store.getErrorCount(), 2);
+
+  store.removeValidationRules("a", ["schema:a:1"]);
+  assert.deepEqual(ids(store, "a"), ["schema:a:0", "low"]);
+  assert.equal(store.getErrorCount(), 1);
+
+  store.setValidationRules("a", []);
+  assert.deepEqual(ids(store, "a"), ["schema:a:0"]);
+  assert.throws(
+    () =>
+      store.addValidationRules("a", [{ id: "schema:a:0", type: "required" }]),
+    { code: "INVALID_RULE" },
+  );
+});
+
+test("rule changes are kept for later loads until cleared", () => {
+  const store = new DataStore({
+    schema: {
+      columns: [{ key: "a", validation: [{ type: "max", value: 3 }] }],
+      additionalColumns: true,
+    },
+  });
+  store.loadFromString("a,b\n5,x\n", "data.csv");
+  store.setValidationRules("b", [
+    { id: "short", type: "max-length", value: 0 },
+  ]);
+  store.removeValidationRules("a", ["schema:a:1"]);
+  assert.equal(store.getErrorCount(), 1);
+
+  store.loadFromString("a,b\n5,y\n", "data.csv");
+  assert.deepEqual(ids(store, "a"), ["schema:a:0", "schema:a:1"]);
+  assert.deepEqual(ids(store, "b"), ["short"]);
+  assert.equal(store.getErrorCount(), 2);
+
+  store.clearValidationRules();
+  assert.deepEqual(ids(store, "a"), ["schema:a:0", "schema:a:1"]);
+  assert.deepEqual(ids(store, "b"), []);
+  assert.equal(store.getErrorCount(), 1);
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, parse } from "../dist/index.js";
+
+const schema = {
+  columns: [
+    { key: "name", required: true },
+    {
+      key: "age",
+      type: "number",
+      label: "Age (years)",
+      validation: [{ type: "min", value: 0 }],
+    },
+    { key: "nickname", optional: true },
+    { key: "zip", type: "string" },
+  ],
+};
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+test("declared columns override inference and come first", () => {
+  const { columns } = parse('[{"extra":1,"zip":12345,"age":"x"}]', { schema });
+  assert.deepEqual(
+    columns.map(({ key, type, label }) => [key, type, label]),
+    [
+      ["name", "string", "Name"],
+      ["age", "number", "Age (years)"],
+      ["nickname", "string", "Nickname"],
+      ["zip", "string", "Zip"],
+      ["extra", "number", "Extra"],
+    ],
+  );
+});
+
+test("records are validated against the declared columns", () => {
+  const store = new DataStore({ schema });
+  store.loadFromString(
+    JSON.stringify([
+      { name: "Ada", age: 36, zip: "10115" },
+      { age: "old", nickname: "Jo", zip: 10115, extra: true },
+      { name: "", age: -1 },
+    ]),
+    "data.json",
+  );
+
+  assert.deepEqual(codes(store, "name"), [[], ["REQUIRED"], ["REQUIRED"]]);
+  assert.deepEqual(codes(store, "age"), [[], ["EXPECTED_NUMBER"], ["MIN"]]);
+  assert.deepEqual(codes(store, "nickname"), [[], [], []]);
+  assert.deepEqual(codes(store, "zip"), [[], [], ["MISSING_KEY"]]);
+  assert.deepEqual(codes(store, "extra"), [[], ["UNEXPECTED_KEY"], []]);
+});
+
+test("additionalColumns lets undeclared keys through", () => {
+  const store = new DataStore({
+    schema: { ...schema, additionalColumns: true },
+  });
+  store.loadFromString(
+    '[{"name":"Ada","age":1,"zip":"1","extra":1}]',
+    "data.json",
+  );
+  assert.equal(store.getErrorCount(), 0);
+});
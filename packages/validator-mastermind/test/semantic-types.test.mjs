@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parse, validateCell } from "../dist/index.js";
+
+/** Type error codes `value` gets in a column of the given type. */
+const check = (value, column) =>
+  validateCell(value, { key: "v", label: "V", ...column }).map((e) => e.code);
+
+test("each semantic type accepts its shape and rejects others", () => {
+  const cases = [
+    ["integer", [42, "-7"], [1.5, "x"], "EXPECTED_INTEGER"],
+    ["decimal", [1.25, "0.5"], ["1,5", true], "EXPECTED_DECIMAL"],
+    [
+      "currency",
+      [12, "$1,234.50", "-12 EUR", "€ 3"],
+      ["cash"],
+      "EXPECTED_CURRENCY",
+    ],
+    ["email", ["ada@example.com"], ["ada@", "example.com"], "EXPECTED_EMAIL"],
+    [
+      "url",
+      ["https://example.com/a"],
+      ["example.com", "/path"],
+      "EXPECTED_URL",
+    ],
+    [
+      "uuid",
+      ["123e4567-e89b-12d3-a456-426614174000"],
+      ["123e4567e89b12d3a456426614174000"],
+      "EXPECTED_UUID",
+    ],
+    [
+      "time",
+      ["09:30", "23:59:59", "00:00:00.250"],
+      ["24:00", "9:30"],
+      "EXPECTED_TIME",
+    ],
+    [
+      "datetime",
+      ["2024-03-01T09:30:00Z", "2024-03-01T09:30+01:00"],
+      ["2024-03-01", "yesterday"],
+      "EXPECTED_DATETIME",
+    ],
+  ];
+  for (const [type, valid, invalid, code] of cases) {
+    for (const value of valid) {
+      assert.deepEqual(check(value, { type }), [], `${type} ${value}`);
+    }
+    for (const value of invalid) {
+      assert.deepEqual(check(value, { type }), [code], `${type} ${value}`);
+    }
+  }
+});
+
+test("decimal precision and scale limit the digits", () => {
+  const column = { type: "decimal", precision: 5, scale: 2 };
+  assert.deepEqual(check("123.45", column), []);
+  assert.deepEqual(check(1.234, column), ["SCALE"]);
+  assert.deepEqual(check("1234.5", column), ["PRECISION"]);
+});
+
+test("currency amounts allow the fraction digits of their currency", () => {
+  assert.deepEqual(check("12.50", { type: "currency" }), []);
+  assert.deepEqual(check("12.505", { type: "currency" }), ["SCALE"]);
+  assert.deepEqual(check("1200", { type: "currency", currency: "JPY" }), []);
+  assert.deepEqual(check("12.5", { type: "currency", currency: "JPY" }), [
+    "SCALE",
+  ]);
+});
+
+test("enum values are compared strictly", () => {
+  const column = { type: "enum", values: ["open", 1] };
+  assert.deepEqual(check("open", column), []);
+  assert.deepEqual(check(1, column), []);
+  assert.deepEqual(check("1", column), ["ENUM"]);
+});
+
+test("inference only picks types it can tell from the text", () => {
+  const { columns } = parse(
+    JSON.stringify([
+      {
+        at: "2024-03-01T09:30:00Z",
+        time: "09:30",
+        id: "123e4567-e89b-12d3-a456-426614174000",
+        email: "ada@example.com",
+        site: "https://example.com",
+        ftp: "ftp://example.com",
+        count: 3,
+        mixed: "ada@example.com",
+      },
+      {
+        at: "2024-03-02T10:00:00Z",
+        time: "10:15:30",
+        id: "123e4567-e89b-12d3-a456-426614174001",
+        email: "bob@example.com",
+        site: "http://example.org",
+        ftp: "ftp://example.org",
+        count: 4,
+        mixed: "not an email",
+      },
+    ]),
+  );
+  assert.deepEqual(
+    Object.fromEntries(columns.map(({ key, type }) => [key, type])),
+    {
+      at: "datetime",
+      time: "time",
+      id: "uuid",
+      email: "email",
+      site: "url",
+      ftp: "string",
+      count: "number",
+      mixed: "string",
+    },
+  );
+});
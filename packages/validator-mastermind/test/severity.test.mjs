@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, ValidationFailedError } from "../dist/index.js";
+
+const options = {
+  validationRules: {
+    amount: [
+      { type: "min", value: 0 },
+      { type: "max", value: 100, severity: "warning" },
+    ],
+    note: [{ type: "max-length", value: 5, severity: "info" }],
+  },
+  rowRules: [{ type: "unique", columns: ["email"], severity: "warning" }],
+};
+
+function load(csv) {
+  const store = new DataStore(options);
+  store.loadFromString(csv, "data.csv");
+  return store;
+}
+
+test("errors carry the severity of their rule", () => {
+  const store = load(
+    "email,amount,note\na@x.io,500,longer note\na@x.io,x,ok\n",
+  );
+  const [first, second] = store.getRows();
+
+  const view = (errors) => errors.map((e) => [e.code, e.severity]);
+  assert.deepEqual(view(first.errors.email), [["UNIQUE", "warning"]]);
+  assert.deepEqual(view(first.errors.amount), [["MAX", "warning"]]);
+  assert.deepEqual(view(first.errors.note), [["MAX_LENGTH", "info"]]);
+  assert.deepEqual(view(second.errors.amount), [["EXPECTED_NUMBER", "error"]]);
+});
+
+test("counts and row lists default to blocking errors", () => {
+  const store = load(
+    "email,amount,note\na@x.io,500,longer note\nb@x.io,-1,ok\n",
+  );
+  const ids = (rows) => rows.map((row) => row.id);
+  const [first, second] = store.getRows();
+
+  assert.equal(store.getErrorCount(), 1);
+  assert.equal(store.getErrorCount("warning"), 1);
+  assert.equal(store.getErrorCount("info"), 1);
+  assert.deepEqual(ids(store.getRowsWithErrors()), [second.id]);
+  assert.deepEqual(ids(store.getRowsWithErrors("warning")), [first.id]);
+});
+
+test("only blocking errors stop a validated export", () => {
+  const store = load(
+    "email,amount,note\na@x.io,500,longer note\na@x.io,5,ok\n",
+  );
+  assert.equal(store.exportData({ requireValid: true }).length, 2);
+
+  store.updateCell(store.getRows()[1].id, "amount", -1);
+  assert.throws(
+    () => store.exportData({ requireValid: true }),
+    (error) =>
+      error instanceof ValidationFailedError &&
+      error.cellErrors.map((e) => e.code).join() === "MIN",
+  );
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, FileSizeError, parse, parseStream } from "../dist/index.js";
+
+/** A byte stream of `text` cut into chunks of `size` bytes. */
+function streamOf(text, size = 7) {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+const cells = (dataSet) => dataSet.rows.map((row) => row.cells);
+
+const records = Array.from({ length: 50 }, (_, i) => ({
+  id: i,
+  name: `naïve "${i}"`,
+  tags: ["a", "b"],
+}));
+
+for (const [format, text] of [
+  ["json", JSON.stringify(records)],
+  ["ndjson", records.map((record) => JSON.stringify(record)).join("\n")],
+  ["csv", "id,name\n" + records.map((r) => `${r.id},x${r.id}`).join("\n")],
+]) {
+  test(`streamed ${format} gives the same rows as parse()`, async () => {
+    const streamed = await parseStream(streamOf(text), { format });
+    assert.deepEqual(cells(streamed), cells(parse(text, { format })));
+  });
+}
+
+test("progress is reported as bytes and rows come in", async () => {
+  const text = JSON.stringify(records);
+  const updates = [];
+  await parseStream(streamOf(text, 64), {
+    totalBytes: text.length,
+    onProgress: (progress) => updates.push(progress),
+  });
+
+  assert.ok(updates.length > 0);
+  const last = updates.at(-1);
+  assert.equal(last.totalBytes, text.length);
+  assert.equal(last.bytesRead, new TextEncoder().encode(text).length);
+  assert.equal(last.rowsParsed, records.length);
+});
+
+test("a stream over maxFileSize is refused", async () => {
+  await assert.rejects(
+    parseStream(streamOf(JSON.stringify(records)), { maxFileSize: 100 }),
+    FileSizeError,
+  );
+});
+
+test("an aborted stream rejects", async () => {
+  const controller = new AbortController();
+  controller.abort();
+  await assert.rejects(
+    parseStream(streamOf(JSON.stringify(records)), {
+      signal: controller.signal,
+    }),
+  );
+});
+
+test("the store loads a stream", async () => {
+  const store = new DataStore();
+  await store.loadFromStream(streamOf(JSON.stringify(records)), {
+    fileName: "records.json",
+  });
+  assert.equal(store.getState().status, "loaded");
+  assert.equal(store.getRows().length, records.length);
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore } from "../dist/index.js";
+
+const records = Array.from({ length: 30 }, (_, i) => ({
+  id: `AB-${1000 + i}`,
+  size: ["S", "M", "L"][i % 3],
+  qty: i + 1,
+  email: `user${i}@example.com`,
+  note: i % 2 === 0 ? null : `note ${i}`,
+}));
+
+function load(options) {
+  const store = new DataStore(options);
+  store.loadFromString(JSON.stringify(records), "data.json");
+  return store;
+}
+
+const byColumn = (suggestions) =>
+  suggestions.map(({ columnKey, rule }) => [columnKey, rule]);
+
+test("rules the data already follows are suggested", () => {
+  const suggestions = byColumn(load().suggestValidationRules());
+
+  assert.deepEqual(
+    suggestions.filter(([key]) => key === "size"),
+    [
+      ["size", { type: "required" }],
+      ["size", { type: "enum", values: ["S", "M", "L"] }],
+    ],
+  );
+  assert.deepEqual(
+    suggestions.filter(([key]) => key === "qty").map(([, rule]) => rule),
+    [
+      { type: "required" },
+      { type: "min", value: 1 },
+      { type: "max", value: 30 },
+    ],
+  );
+  assert.deepEqual(
+    suggestions.find(([key, rule]) => key === "id" && rule.type === "pattern"),
+    ["id", { type: "pattern", value: "^[A-Z]{2}-\\d{4}$" }],
+  );
+  assert.equal(
+    suggestions.some(
+      ([key, rule]) => key === "note" && rule.type === "required",
+    ),
+    false,
+  );
+});
+
+test("suggestions carry a reason and a confidence and skip existing rules", () => {
+  const store = load({ validationRules: { qty: [{ type: "min", value: 0 }] } });
+  const suggestions = store.suggestValidationRules("qty");
+
+  assert.ok(suggestions.every(({ columnKey }) => columnKey === "qty"));
+  assert.ok(suggestions.every(({ rule }) => rule.type !== "min"));
+  for (const { reason, confidence } of suggestions) {
+    assert.equal(typeof reason, "string");
+    assert.ok(confidence > 0 && confidence <= 1);
+  }
+});
+
+test("accepted suggestions validate the data without errors", () => {
+  const store = load();
+  for (const { columnKey, rule } of store.suggestValidationRules()) {
+    store.addValidationRules(columnKey, [rule]);
+  }
+  assert.equal(store.getErrorCount(), 0);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, validateAllRows } from "../dist/index.js";
+
+const rowRules = [{ type: "unique", columns: ["id"] }];
+
+/** Asserts that the store's errors equal those of a full pass over its cells. */
+function assertMatchesFullPass(store) {
+  const full = validateAllRows(
+    store.getRows().map((row) => ({ ...row, errors: {} })),
+    store.getColumns(),
+    rowRules,
+  );
+  assert.deepEqual(
+    store.getRows().map((row) => row.errors),
+    full.map((row) => row.errors),
+  );
+}
+
+test("large duplicate groups list the same rows after edits", () => {
+  const store = new DataStore({ rowRules });
+  const csv = ["id", ...Array.from({ length: 14 }, () => "x")].join("\n");
+  store.loadFromString(csv, "data.csv");
+  const [first, second] = store.getRows();
+
+  store.updateCell(first.id, "id", "y");
+  store.updateCell(first.id, "id", "x");
+  store.updateCell(second.id, "id", "y");
+  store.updateCell(second.id, "id", "x");
+
+  const [error] = store.getRows()[5].errors.id;
+  assert.deepEqual(error.params.rows.slice(0, 3), [1, 2, 3]);
+  assertMatchesFullPass(store);
+});
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+test("composite keys need every column to match", () => {
+  const store = new DataStore({
+    rowRules: [{ type: "unique", columns: ["order", "line"] }],
+  });
+  store.loadFromString("order,line\nA,1\nA,2\nA,1\nB,1\n", "data.csv");
+  const rows = store.getRows();
+
+  assert.deepEqual(codes(store, "order"), [["UNIQUE"], [], ["UNIQUE"], []]);
+  assert.deepEqual(codes(store, "line"), [["UNIQUE"], [], ["UNIQUE"], []]);
+  const [error] = rows[0].errors.order;
+  assert.deepEqual(error.duplicates, [rows[2].id]);
+  assert.deepEqual(error.params.rows, [3]);
+});
+
+test("rows with an empty key never count as duplicates", () => {
+  const store = new DataStore({
+    rowRules: [{ type: "unique", columns: ["email", "team"] }],
+  });
+  store.loadFromString(
+    "email,team\n,red\n,red\na@x.io,\na@x.io,\n",
+    "data.csv",
+  );
+  assert.deepEqual(codes(store, "email"), [[], [], [], []]);
+});
+
+test("an edit clears the error on a twin and raises it on a new one", () => {
+  const store = new DataStore({ rowRules });
+  store.loadFromString("id\n1\n1\n2\n", "data.csv");
+  const [first, , third] = store.getRows();
+
+  store.updateCell(first.id, "id", 2);
+  assert.deepEqual(codes(store, "id"), [["UNIQUE"], [], ["UNIQUE"]]);
+  assert.deepEqual(store.getRows()[2].errors.id[0].duplicates, [first.id]);
+
+  store.updateCell(third.id, "id", null);
+  assert.deepEqual(codes(store, "id"), [[], [], []]);
+  assertMatchesFullPass(store);
+});
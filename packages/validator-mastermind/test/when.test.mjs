@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataStore, validateCell } from "../dist/index.js";
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+function load(validationRules, csv) {
+  const store = new DataStore({ validationRules });
+  store.loadFromString(csv, "data.csv");
+  return store;
+}
+
+test("a condition on values applies the rule to matching rows", () => {
+  const store = load(
+    {
+      tracking: [
+        { type: "required", when: { column: "status", values: ["shipped"] } },
+      ],
+    },
+    "status,tracking\nshipped,\nopen,\nshipped,T1\n",
+  );
+  assert.deepEqual(codes(store, "tracking"), [["REQUIRED"], [], []]);
+});
+
+test("a condition compares by operator in the column's type", () => {
+  const store = load(
+    {
+      note: [
+        {
+          type: "required",
+          when: { column: "amount", operator: ">", value: 100 },
+        },
+      ],
+    },
+    "amount,note\n150,\n20,\n,\n",
+  );
+  assert.deepEqual(codes(store, "note"), [["REQUIRED"], [], []]);
+});
+
+test("a condition without values or operator needs a filled cell", () => {
+  const store = load(
+    { reason: [{ type: "required", when: { column: "refund" } }] },
+    "refund,reason\n5,\n,\n",
+  );
+  assert.deepEqual(codes(store, "reason"), [["REQUIRED"], []]);
+});
+
+test("every condition in a list must hold", () => {
+  const store = load(
+    {
+      zip: [
+        {
+          type: "pattern",
+          value: "^\\d{5}$",
+          when: [
+            { column: "country", values: ["DE"] },
+            { column: "amount", operator: ">", value: 100 },
+          ],
+        },
+      ],
+    },
+    "country,amount,zip\nDE,150,AB\nDE,50,AB\nFR,150,AB\nDE,150,10115\n",
+  );
+  assert.deepEqual(codes(store, "zip"), [["PATTERN"], [], [], []]);
+});
+
+test("editing a condition's cell re-checks the rule at once", () => {
+  const store = load(
+    {
+      tracking: [
+        { type: "required", when: { column: "status", values: ["shipped"] } },
+      ],
+    },
+    "status,tracking\nopen,\n",
+  );
+  const [row] = store.getRows();
+
+  store.updateCell(row.id, "status", "shipped");
+  assert.deepEqual(codes(store, "tracking"), [["REQUIRED"]]);
+  store.batchUpdateCells([
+    { rowId: row.id, columnKey: "status", value: "open" },
+  ]);
+  assert.deepEqual(codes(store, "tracking"), [[]]);
+});
+
+test("validateCell without a row skips conditional rules", () => {
+  const column = {
+    key: "tracking",
+    label: "Tracking",
+    type: "string",
+    validation: [
+      { type: "required", when: { column: "status", values: ["shipped"] } },
+    ],
+  };
+  const row = { id: "r1", cells: { status: "shipped" }, errors: {} };
+  assert.deepEqual(validateCell("", column), []);
+  assert.deepEqual(
+    validateCell("", column, row).map((e) => e.code),
+    ["REQUIRED"],
+  );
+});
@@ -0,0 +1,14 @@
+// The worker side of the tests that pass a worker to the store. Its
+// `explode` rule throws, so re-validating on it fails.
+import { parentPort } from "node:worker_threads";
+import { exposeWorker } from "../dist/index.js";
+
+exposeWorker(parentPort, {
+  customRules: {
+    explode: {
+      validate() {
+        throw new Error("boom");
+      },
+    },
+  },
+});
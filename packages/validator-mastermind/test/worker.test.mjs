@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { after, test } from "node:test";
+import { Worker } from "node:worker_threads";
+import { DataStore } from "../dist/index.js";
+
+const worker = new Worker(new URL("./worker.mjs", import.meta.url));
+after(() => worker.terminate());
+
+/** Resolves once the store has been quiet for a moment. */
+function settled(store) {
+  return new Promise((resolve) => {
+    let timer = setTimeout(done, 100);
+    const unsubscribe = store.subscribe(() => {
+      clearTimeout(timer);
+      timer = setTimeout(done, 100);
+    });
+    function done() {
+      unsubscribe();
+      resolve();
+    }
+  });
+}
+
+const codes = (store, key) =>
+  store.getRows().map((row) => (row.errors[key] ?? []).map((e) => e.code));
+
+const options = {
+  validationRules: { qty: [{ type: "min", value: 0 }] },
+  rowRules: [{ type: "unique", columns: ["id"] }],
+};
+const csv = "id,qty\n1,5\n2,-1\n1,3\n";
+
+test("loading on the worker gives the same rows as on the calling thread", async () => {
+  const local = new DataStore(options);
+  local.loadFromString(csv, "data.csv");
+  const store = new DataStore({ ...options, worker });
+  store.loadFromString(csv, "data.csv");
+  assert.equal(store.getState().status, "loading");
+  await settled(store);
+
+  // Row ids differ between loads, so `unique` errors are compared by message.
+  const view = (s) =>
+    s.getRows().map(({ cells, errors }) => [
+      cells,
+      Object.values(errors)
+        .flat()
+        .map((e) => [e.column, e.code, e.message]),
+    ]);
+  assert.equal(store.getState().status, "loaded");
+  assert.deepEqual(view(store), view(local));
+});
+
+test("streams are parsed on the worker and edits stay synchronous", async () => {
+  const store = new DataStore({ ...options, worker });
+  await store.loadFromStream(new Blob([csv]).stream(), {
+    fileName: "data.csv",
+  });
+  await settled(store);
+  assert.deepEqual(codes(store, "qty"), [[], ["MIN"], []]);
+
+  store.updateCell(store.getRows()[1].id, "qty", 4);
+  assert.deepEqual(codes(store, "qty"), [[], [], []]);
+});
+
+test("rule changes made while the worker re-validates are kept", async () => {
+  const store = new DataStore({ worker });
+  store.loadFromString("a,b\n1,2\n5,6\n", "data.csv");
+  await settled(store);
+
+  store.addRowRules([{ type: "compare", columns: ["a", "b"], operator: ">" }]);
+  store.setValidationRules("a", [{ type: "max", value: 3 }]);
+  const rules = [];
+  store.subscribe(() => rules.push(store.getEffectiveRules("a").length));
+  await settled(store);
+
+  assert.ok(rules.length > 0 && rules.every((count) => count === 1));
+  assert.deepEqual(codes(store, "a"), [["COMPARE_GT"], ["MAX", "COMPARE_GT"]]);
+});
+
+test("a failed re-validation keeps the data and names its columns", async () => {
+  const store = new DataStore({
+    worker,
+    validationRules: { a: [{ type: "max", value: 3 }] },
+  });
+  store.loadFromString("a,b\n1,2\n5,6\n", "data.csv");
+  await settled(store);
+
+  store.registerRule("explode", { validate: () => true });
+  store.setValidationRules("a", [{ type: "explode" }]);
+  await settled(store);
+
+  const state = store.getState();
+  assert.equal(state.status, "loaded");
+  assert.deepEqual(state.revalidationFailure?.keys, ["a"]);
+  assert.equal(state.revalidationFailure?.error.message, "boom");
+  assert.deepEqual(codes(store, "a"), [[], ["MAX"]]);
+
+  store.setValidationRules("a", []);
+  await settled(store);
+  assert.equal(store.getState().revalidationFailure, undefined);
+  assert.deepEqual(codes(store, "a"), [[], []]);
+});